@@ -1,15 +1,34 @@
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useEffect, useRef } from 'react';
 import { Dropzone } from './components/Dropzone';
 import { ImagePreviewCard } from './components/ImagePreviewCard';
-import { ProcessedImage, ProcessingStep } from './types';
-import { analyzeImageLayout, removeTextFromImage } from './services/geminiService';
-import { generatePPT } from './services/pptService';
-import { FileDown, Layers, Sparkles, Trash2, Key, Settings } from 'lucide-react';
+import { ElementEditor } from './components/ElementEditor';
+import { ExportSettings } from './components/ExportSettings';
+import { FontReport } from './components/FontReport';
+import { UsageSummary } from './components/UsageSummary';
+import { ComparisonView } from './components/ComparisonView';
+import { ProcessedImage, ProcessingStep, DetectedTextElement, VisionProviderId, BackgroundCleaningMode, PptExportOptions, ExportFormatId, PriceTable } from './types';
+import { createJobQueue, isAbortError } from './services/jobQueue';
+import { processSlide, ALL_STAGES, PipelineStage, PipelineSettings } from './services/slidePipeline';
+import { VISION_PROVIDERS, getVisionProvider, getDefaultVisionProviderId } from './services/visionProviders';
+import { DEFAULT_EXPORT_OPTIONS } from './services/pptService';
+import { exportSlides, getExporter, downloadFile } from './services/exporters';
+import { saveSession, loadSession, exportProjectBundle, importProjectBundle } from './services/projectStore';
+import { rasterizePdf, isPdfFile, PDF_DPI_OPTIONS, DEFAULT_PDF_DPI } from './services/pdfService';
+import { loadFontProfile, saveFontProfile, FontReportEntry } from './services/fontService';
+import { createIndexedDbCacheStore } from './services/analysisCache';
+import { loadPriceTable, savePriceTable } from './services/usageService';
+import { scoreFidelity } from './services/fidelityService';
+import { FileDown, Layers, Sparkles, Trash2, Key, Settings, ScanText, Eraser, Shapes, ChartColumn, FileText, Save, FolderOpen, Square, Pipette, Type } from 'lucide-react';
+
+// Model answers keyed by image hash, shared by every run in this browser
+const analysisCache = createIndexedDbCacheStore();
 
 const App: React.FC = () => {
   const [items, setItems] = useState<ProcessedImage[]>([]);
   const [step, setStep] = useState<ProcessingStep>(ProcessingStep.IDLE);
   const [progress, setProgress] = useState({ current: 0, total: 0 });
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [comparingId, setComparingId] = useState<string | null>(null);
   
   // Allow user to input key if env var is missing
   const [userApiKey, setUserApiKey] = useState('');
@@ -19,18 +38,98 @@ const App: React.FC = () => {
     return (process.env.API_KEY || userApiKey).trim();
   };
 
-  const handleFilesSelected = useCallback((files: File[]) => {
-    const newItems: ProcessedImage[] = files.map((file) => ({
+  const [visionProviderId, setVisionProviderId] = useState<VisionProviderId>(getDefaultVisionProviderId);
+  const visionProvider = getVisionProvider(visionProviderId);
+  const [cleaningMode, setCleaningMode] = useState<BackgroundCleaningMode>('ai');
+  const [rebuildShapes, setRebuildShapes] = useState(true);
+  const [rebuildCharts, setRebuildCharts] = useState(true);
+  const [correctColors, setCorrectColors] = useState(true);
+  const [detectFontNames, setDetectFontNames] = useState(false);
+  const [exportOptions, setExportOptions] = useState<PptExportOptions>(() => ({ ...DEFAULT_EXPORT_OPTIONS, fonts: loadFontProfile() }));
+  const [fontReport, setFontReport] = useState<FontReportEntry[] | null>(null);
+  const [prices, setPrices] = useState<PriceTable>(loadPriceTable);
+  const [exportFormat, setExportFormat] = useState<ExportFormatId>('pptx');
+  const [pdfDpi, setPdfDpi] = useState(DEFAULT_PDF_DPI);
+  const [sessionRestored, setSessionRestored] = useState(false);
+  const bundleInputRef = useRef<HTMLInputElement>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  // Restore the previous session once; slides dropped in meanwhile are kept after the restored ones
+  useEffect(() => {
+    let cancelled = false;
+    loadSession()
+      .then(saved => {
+        if (cancelled) {
+          saved.forEach(i => URL.revokeObjectURL(i.previewUrl));
+          return;
+        }
+        if (saved.length > 0) setItems(prev => [...saved, ...prev]);
+      })
+      .catch(err => console.warn("Could not restore the previous session", err))
+      .finally(() => {
+        if (!cancelled) setSessionRestored(true);
+      });
+    return () => { cancelled = true; };
+  }, []);
+
+  // Persist after every change, debounced so progress updates don't rewrite the store each time
+  useEffect(() => {
+    if (!sessionRestored) return;
+    const timer = setTimeout(() => {
+      saveSession(items).catch(err => console.warn("Could not save the session", err));
+    }, 500);
+    return () => clearTimeout(timer);
+  }, [items, sessionRestored]);
+
+  // The font profile is a user preference, kept across sessions and projects
+  useEffect(() => {
+    saveFontProfile(exportOptions.fonts);
+  }, [exportOptions.fonts]);
+
+  useEffect(() => {
+    savePriceTable(prices);
+  }, [prices]);
+
+  const handleFilesSelected = useCallback(async (files: File[]) => {
+    const createItem = (file: File, extra: Partial<ProcessedImage> = {}): ProcessedImage => ({
       id: Math.random().toString(36).substring(7),
       file,
       previewUrl: URL.createObjectURL(file),
       status: 'pending',
       width: 0,
-      height: 0, 
-    }));
+      height: 0,
+      ...extra,
+    });
 
-    setItems((prev) => [...prev, ...newItems]);
-  }, []);
+    if (!files.some(isPdfFile)) {
+      setItems((prev) => [...prev, ...files.map(file => createItem(file))]);
+      return;
+    }
+
+    // PDFs expand into one item per page; files are handled one at a time so the order is kept
+    setStep(ProcessingStep.IMPORTING);
+    try {
+      for (const file of files) {
+        if (!isPdfFile(file)) {
+          setItems((prev) => [...prev, createItem(file)]);
+          continue;
+        }
+        await rasterizePdf(file, pdfDpi, (page) => {
+          setItems((prev) => [...prev, createItem(page.file, {
+            width: page.width,
+            height: page.height,
+            pdfSource: { fileName: file.name, page: page.pageNumber, pageCount: page.pageCount },
+            textLayer: page.textLayout,
+          })]);
+        }).catch(err => {
+          console.error(err);
+          alert(`Could not read ${file.name}`);
+        });
+      }
+    } finally {
+      setStep(ProcessingStep.IDLE);
+    }
+  }, [pdfDpi]);
 
   const handleClear = () => {
     // Revoke URLs to prevent memory leaks
@@ -40,100 +139,128 @@ const App: React.FC = () => {
     setProgress({ current: 0, total: 0 });
   };
 
-  const processImages = async () => {
-    if (items.length === 0) return;
+  const handleSaveProject = async () => {
+    try {
+      const data = await exportProjectBundle(items);
+      downloadFile({ fileName: `Img2PPT-Project-${Date.now()}.zip`, data });
+    } catch (e) {
+      alert("Failed to save the project");
+      console.error(e);
+    }
+  };
+
+  const handleOpenProject = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const bundle = e.target.files?.[0];
+    e.target.value = '';
+    if (!bundle) return;
+    try {
+      const imported = await importProjectBundle(bundle);
+      setItems(prev => [...prev, ...imported]);
+    } catch (err: any) {
+      alert(err.message || "Failed to open the project");
+      console.error(err);
+    }
+  };
+
+  // Rendering the rebuilt slide needs the finished layout and background; a failure just leaves the old score
+  const rescoreFidelity = (item: ProcessedImage) =>
+    scoreFidelity(item, exportOptions.fonts).catch(err => {
+      console.warn("Fidelity scoring failed", err);
+      return item.fidelity;
+    });
+
+  // Write corrected layout from the editor back so export uses it
+  const handleSaveElements = async (id: string, elements: DetectedTextElement[]) => {
+    setItems(prev => prev.map(i => (i.id === id ? { ...i, elements } : i)));
+    setEditingId(null);
+    const item = items.find(i => i.id === id);
+    if (item) updateItem(id, { fidelity: await rescoreFidelity({ ...item, elements }) });
+  };
+
+  // PDF pages with a text layer skip vision analysis, so they never need a key for it
+  const needsApiKey = visionProvider.requiresApiKey && items.some(i => i.status !== 'completed' && !i.textLayer);
+
+  const updateItem = (id: string, patch: Partial<ProcessedImage>) => {
+    setItems(prev => prev.map(i => (i.id === id ? { ...i, ...patch } : i)));
+  };
+
+  /**
+   * Runs the given stages for the given slides through one job queue.
+   * Cancelling puts unfinished slides back where they were; slides that had
+   * finished before a re-run keep their previous result. `refreshCache`
+   * requests fresh model answers instead of cached ones.
+   */
+  const runPipeline = async (targets: ProcessedImage[], stages: PipelineStage[], refreshCache = false) => {
+    if (targets.length === 0) return;
     const apiKey = getApiKey();
 
-    if (!apiKey) {
+    const analysisNeedsKey = stages.includes('analysis') && targets.some(i => !i.textLayer);
+    if (visionProvider.requiresApiKey && analysisNeedsKey && !apiKey) {
       alert("Please enter a valid Google Gemini API Key to proceed.");
       setShowKeyInput(true);
       return;
     }
 
+    const controller = new AbortController();
+    abortRef.current = controller;
+    const queue = createJobQueue({
+      signal: controller.signal,
+      onRetry: ({ attempt, delayMs, error }) => console.warn(`Request failed, retry ${attempt} in ${delayMs}ms`, error),
+    });
+    const settings: PipelineSettings = {
+      apiKey, visionProvider, cleaningMode, rebuildShapes, rebuildCharts, correctColors, detectFontNames,
+      cache: analysisCache,
+      refreshCache,
+    };
+
     setStep(ProcessingStep.ANALYZING);
-    setProgress({ current: 0, total: items.length });
-
-    const updatedItems = [...items];
-
-    // Process sequentially in batches to avoid rate limits
-    const BATCH_SIZE = 3;
-    
-    for (let i = 0; i < updatedItems.length; i += BATCH_SIZE) {
-        const batch = updatedItems.slice(i, i + BATCH_SIZE);
-        const promises = batch.map(async (item, indexInBatch) => {
-            const globalIndex = i + indexInBatch;
-            
-            // Skip if already done
-            if (updatedItems[globalIndex].status === 'completed') return;
-
-            // Set processing
-            setItems(prev => {
-                const copy = [...prev];
-                copy[globalIndex].status = 'processing';
-                return copy;
-            });
-
-            try {
-                // 1. Get image dimensions first to determine aspect ratio
-                const img = new Image();
-                img.src = item.previewUrl;
-                await new Promise((resolve) => { if(img.complete) resolve(true); else img.onload = resolve; });
-                
-                const ratio = img.naturalWidth / img.naturalHeight;
-                
-                let targetAspectRatio: "16:9" | "4:3" | "1:1" = "1:1";
-                // Thresholds set to midpoints
-                if (ratio >= 1.55) targetAspectRatio = "16:9";      // Covers 16:9 (1.77) and 16:10 (1.6)
-                else if (ratio >= 1.15) targetAspectRatio = "4:3";  // Covers 4:3 (1.33) and 3:2 (1.5)
-                else targetAspectRatio = "1:1";
-
-                // 2. Run analysis and background cleaning in parallel
-                const [elements, cleanBackgroundBase64] = await Promise.all([
-                  analyzeImageLayout(item.file, apiKey),
-                  // Pass the aspect ratio to ensure background isn't squashed
-                  removeTextFromImage(item.file, apiKey, targetAspectRatio).catch(err => {
-                    console.warn("Background cleaning failed, falling back to original", err);
-                    return undefined;
-                  })
-                ]);
-                
-                setItems(prev => {
-                    const copy = [...prev];
-                    copy[globalIndex] = {
-                        ...copy[globalIndex],
-                        status: 'completed',
-                        elements: elements,
-                        cleanBackgroundBase64: cleanBackgroundBase64,
-                        width: img.naturalWidth,
-                        height: img.naturalHeight
-                    };
-                    return copy;
-                });
-            } catch (err: any) {
-                console.error(err);
-                setItems(prev => {
-                    const copy = [...prev];
-                    copy[globalIndex].status = 'error';
-                    copy[globalIndex].error = err.message || "Failed";
-                    return copy;
-                });
-            } finally {
-                setProgress(prev => ({ ...prev, current: prev.current + 1 }));
-            }
-        });
+    setProgress({ current: 0, total: targets.length });
 
-        await Promise.all(promises);
-    }
+    await Promise.all(targets.map(item =>
+      queue.add(async () => {
+        updateItem(item.id, { status: 'processing', error: undefined });
+        try {
+          const patch = await processSlide(item, stages, settings, queue);
+          const fidelity = await rescoreFidelity({ ...item, ...patch });
+          updateItem(item.id, { ...patch, fidelity, status: 'completed' });
+        } catch (err: any) {
+          if (isAbortError(err)) {
+            updateItem(item.id, { status: item.status === 'completed' ? 'completed' : 'pending' });
+          } else {
+            console.error(err);
+            updateItem(item.id, { status: 'error', error: err.message || "Failed" });
+          }
+        } finally {
+          setProgress(prev => ({ ...prev, current: prev.current + 1 }));
+        }
+      }).catch(err => {
+        // Jobs still waiting for a slot when cancelled never started
+        if (!isAbortError(err)) throw err;
+      })
+    ));
 
+    abortRef.current = null;
     setStep(ProcessingStep.DONE);
   };
 
+  const processImages = () => runPipeline(items.filter(i => i.status === 'pending' || i.status === 'error'), ALL_STAGES);
+
+  const handleCancel = () => abortRef.current?.abort();
+
+  const handleRetry = (item: ProcessedImage) => runPipeline([item], ALL_STAGES);
+
+  // Re-running a stage asks for a new answer; the cache would only hand back the same one
+  const handleRerunStage = (item: ProcessedImage, stage: PipelineStage) => runPipeline([item], [stage], true);
+
+  const handleForceRerun = (item: ProcessedImage) => runPipeline([item], ALL_STAGES, true);
+
   const handleDownload = async () => {
     setStep(ProcessingStep.GENERATING);
     try {
-      await generatePPT(items);
+      const report = await exportSlides(items, exportFormat, exportOptions);
+      setFontReport(report.length > 0 ? report : null);
     } catch (e) {
-      alert("Failed to generate PPT");
+      alert(`Failed to generate ${getExporter(exportFormat).label} export`);
       console.error(e);
     } finally {
       setStep(ProcessingStep.DONE);
@@ -142,6 +269,8 @@ const App: React.FC = () => {
 
   const canProcess = items.length > 0 && items.some(i => i.status === 'pending' || i.status === 'error');
   const canDownload = items.some(i => i.status === 'completed');
+  const editingItem = items.find(i => i.id === editingId);
+  const comparingItem = items.find(i => i.id === comparingId);
 
   return (
     <div className="min-h-screen bg-slate-50 pb-20">
@@ -157,6 +286,114 @@ const App: React.FC = () => {
           </div>
           
           <div className="flex items-center space-x-3">
+             {/* Vision Provider */}
+             <div className="flex items-center text-slate-500" title={visionProvider.description}>
+               <ScanText className="w-4 h-4 mr-1.5" />
+               <select
+                 value={visionProviderId}
+                 onChange={(e) => setVisionProviderId(e.target.value as VisionProviderId)}
+                 disabled={step === ProcessingStep.ANALYZING}
+                 className="bg-transparent text-sm text-slate-700 outline-none cursor-pointer disabled:cursor-not-allowed"
+               >
+                 {Object.values(VISION_PROVIDERS).map(p => (
+                   <option key={p.id} value={p.id}>{p.label}</option>
+                 ))}
+               </select>
+             </div>
+
+             {/* Background Cleaning Mode */}
+             <div className="flex items-center text-slate-500" title="How baked-in text is removed from the background">
+               <Eraser className="w-4 h-4 mr-1.5" />
+               <select
+                 value={cleaningMode}
+                 onChange={(e) => setCleaningMode(e.target.value as BackgroundCleaningMode)}
+                 disabled={step === ProcessingStep.ANALYZING}
+                 className="bg-transparent text-sm text-slate-700 outline-none cursor-pointer disabled:cursor-not-allowed"
+               >
+                 <option value="ai">AI cleaning</option>
+                 <option value="local">Local inpainting</option>
+               </select>
+             </div>
+
+             {/* PDF Rendering Resolution */}
+             <div className="flex items-center text-slate-500" title="Resolution PDF pages are rendered at when imported">
+               <FileText className="w-4 h-4 mr-1.5" />
+               <select
+                 value={pdfDpi}
+                 onChange={(e) => setPdfDpi(Number(e.target.value))}
+                 disabled={step === ProcessingStep.IMPORTING}
+                 className="bg-transparent text-sm text-slate-700 outline-none cursor-pointer disabled:cursor-not-allowed"
+               >
+                 {PDF_DPI_OPTIONS.map(dpi => (
+                   <option key={dpi} value={dpi}>{dpi} DPI</option>
+                 ))}
+               </select>
+             </div>
+
+             {/* Diagram Reconstruction */}
+             <label
+               className="flex items-center text-sm text-slate-700 cursor-pointer"
+               title="Rebuild diagram boxes, lines and arrows as native shapes (Gemini only)"
+             >
+               <Shapes className="w-4 h-4 mr-1.5 text-slate-500" />
+               <input
+                 type="checkbox"
+                 checked={rebuildShapes}
+                 onChange={(e) => setRebuildShapes(e.target.checked)}
+                 disabled={step === ProcessingStep.ANALYZING || !visionProvider.supportsShapes}
+                 className="mr-1"
+               />
+               Shapes
+             </label>
+
+             {/* Chart Reconstruction */}
+             <label
+               className="flex items-center text-sm text-slate-700 cursor-pointer"
+               title="Rebuild bar, line and pie charts as editable native charts (Gemini only)"
+             >
+               <ChartColumn className="w-4 h-4 mr-1.5 text-slate-500" />
+               <input
+                 type="checkbox"
+                 checked={rebuildCharts}
+                 onChange={(e) => setRebuildCharts(e.target.checked)}
+                 disabled={step === ProcessingStep.ANALYZING || !visionProvider.supportsCharts}
+                 className="mr-1"
+               />
+               Charts
+             </label>
+
+             {/* Color Correction */}
+             <label
+               className="flex items-center text-sm text-slate-700 cursor-pointer"
+               title="Check text and box colors against the image pixels and fix ones the model got wrong"
+             >
+               <Pipette className="w-4 h-4 mr-1.5 text-slate-500" />
+               <input
+                 type="checkbox"
+                 checked={correctColors}
+                 onChange={(e) => setCorrectColors(e.target.checked)}
+                 disabled={step === ProcessingStep.ANALYZING}
+                 className="mr-1"
+               />
+               Colors
+             </label>
+
+             {/* Font Names */}
+             <label
+               className="flex items-center text-sm text-slate-700 cursor-pointer"
+               title="Ask the model for the closest known font name of each text block (Gemini only)"
+             >
+               <Type className="w-4 h-4 mr-1.5 text-slate-500" />
+               <input
+                 type="checkbox"
+                 checked={detectFontNames}
+                 onChange={(e) => setDetectFontNames(e.target.checked)}
+                 disabled={step === ProcessingStep.ANALYZING || !visionProvider.supportsFontNames}
+                 className="mr-1"
+               />
+               Font names
+             </label>
+
              {/* API Key Input Area */}
              <div className="relative group">
                 {showKeyInput ? (
@@ -204,8 +441,26 @@ const App: React.FC = () => {
         <section>
           <Dropzone 
             onFilesSelected={handleFilesSelected} 
-            disabled={step === ProcessingStep.ANALYZING || step === ProcessingStep.GENERATING} 
+            disabled={step === ProcessingStep.IMPORTING || step === ProcessingStep.ANALYZING || step === ProcessingStep.GENERATING} 
           />
+          <div className="mt-2 text-center">
+            <button
+              onClick={() => bundleInputRef.current?.click()}
+              disabled={step === ProcessingStep.ANALYZING}
+              className="inline-flex items-center text-xs font-medium text-slate-500 hover:text-indigo-600 disabled:opacity-50"
+              title="Continue a conversion saved with Save project"
+            >
+              <FolderOpen className="w-3.5 h-3.5 mr-1" />
+              Open project bundle
+            </button>
+            <input
+              ref={bundleInputRef}
+              type="file"
+              accept=".zip,application/zip"
+              onChange={handleOpenProject}
+              className="hidden"
+            />
+          </div>
         </section>
 
         {/* Controls & Progress */}
@@ -219,6 +474,7 @@ const App: React.FC = () => {
                   <span className="text-xs text-slate-500">
                     {items.filter(i => i.status === 'completed').length} processed
                   </span>
+                  <UsageSummary items={items} prices={prices} onPricesChange={setPrices} />
                </div>
                {step === ProcessingStep.ANALYZING && (
                  <div className="flex-1 sm:w-48 h-2 bg-slate-100 rounded-full overflow-hidden">
@@ -230,24 +486,53 @@ const App: React.FC = () => {
                )}
             </div>
 
-            <div className="flex items-center gap-3 w-full sm:w-auto">
+            <div className="flex flex-wrap items-center gap-3 w-full sm:w-auto">
+              {!canProcess && (
+                <ExportSettings
+                  format={exportFormat}
+                  onFormatChange={setExportFormat}
+                  options={exportOptions}
+                  onChange={setExportOptions}
+                  disabled={step === ProcessingStep.GENERATING}
+                />
+              )}
+
+              <button
+                onClick={handleSaveProject}
+                disabled={step === ProcessingStep.ANALYZING || step === ProcessingStep.IMPORTING}
+                className="px-4 py-2 text-sm font-medium text-slate-600 hover:text-indigo-600 hover:bg-indigo-50 rounded-lg transition-colors flex items-center justify-center flex-1 sm:flex-none disabled:opacity-50"
+                title="Download a project bundle (images + layout) that can be opened later"
+              >
+                <Save className="w-4 h-4 mr-2" />
+                Save project
+              </button>
+
               <button
                 onClick={handleClear}
-                disabled={step === ProcessingStep.ANALYZING}
+                disabled={step === ProcessingStep.ANALYZING || step === ProcessingStep.IMPORTING}
                 className="px-4 py-2 text-sm font-medium text-slate-600 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors flex items-center justify-center flex-1 sm:flex-none"
               >
                 <Trash2 className="w-4 h-4 mr-2" />
                 Clear
               </button>
 
-              {canProcess ? (
+              {step === ProcessingStep.ANALYZING ? (
+                <button
+                  onClick={handleCancel}
+                  className="px-6 py-2 text-sm font-semibold text-red-600 bg-red-50 hover:bg-red-100 border border-red-200 rounded-lg shadow-sm transition-all flex items-center justify-center flex-1 sm:flex-none"
+                  title="Stop processing; finished slides are kept"
+                >
+                  <Square className="w-4 h-4 mr-2" />
+                  Cancel ({progress.current}/{progress.total})
+                </button>
+              ) : canProcess ? (
                  <button
                  onClick={processImages}
-                 disabled={!getApiKey()}
+                 disabled={needsApiKey && !getApiKey()}
                  className="px-6 py-2 text-sm font-semibold text-white bg-indigo-600 hover:bg-indigo-700 active:bg-indigo-800 rounded-lg shadow-sm transition-all flex items-center justify-center flex-1 sm:flex-none disabled:opacity-50 disabled:cursor-not-allowed"
                >
                  <Sparkles className="w-4 h-4 mr-2" />
-                 {step === ProcessingStep.ANALYZING ? 'Analyzing & Cleaning...' : 'Process Images'}
+                 Process Images
                </button>
               ) : (
                 <button
@@ -256,18 +541,29 @@ const App: React.FC = () => {
                   className="px-6 py-2 text-sm font-semibold text-white bg-green-600 hover:bg-green-700 active:bg-green-800 rounded-lg shadow-sm transition-all flex items-center justify-center flex-1 sm:flex-none disabled:opacity-50 disabled:cursor-not-allowed"
                 >
                   <FileDown className="w-4 h-4 mr-2" />
-                  {step === ProcessingStep.GENERATING ? 'Generating PPT...' : 'Download PPT'}
+                  {step === ProcessingStep.GENERATING ? 'Exporting...' : `Download ${getExporter(exportFormat).extension.toUpperCase()}`}
                 </button>
               )}
             </div>
           </section>
         )}
 
+        {fontReport && <FontReport entries={fontReport} onClose={() => setFontReport(null)} />}
+
         {/* Grid of Images */}
         {items.length > 0 && (
           <section className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6">
             {items.map((item) => (
-              <ImagePreviewCard key={item.id} item={item} />
+              <ImagePreviewCard
+                key={item.id}
+                item={item}
+                busy={step === ProcessingStep.ANALYZING}
+                onEdit={() => setEditingId(item.id)}
+                onCompare={() => setComparingId(item.id)}
+                onRetry={() => handleRetry(item)}
+                onRerunStage={(stage) => handleRerunStage(item, stage)}
+                onForceRerun={() => handleForceRerun(item)}
+              />
             ))}
           </section>
         )}
@@ -294,6 +590,23 @@ const App: React.FC = () => {
            </div>
         )}
       </main>
+
+      {editingItem && (
+        <ElementEditor
+          item={editingItem}
+          onSave={(elements) => handleSaveElements(editingItem.id, elements)}
+          onClose={() => setEditingId(null)}
+        />
+      )}
+
+      {comparingItem && (
+        <ComparisonView
+          item={comparingItem}
+          fonts={exportOptions.fonts}
+          onScore={(fidelity) => updateItem(comparingItem.id, { fidelity })}
+          onClose={() => setComparingId(null)}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,288 @@
+#!/usr/bin/env node
+import { mkdir, readdir, readFile, stat, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { parseArgs } from "node:util";
+import { BackgroundCleaningMode, ExportFormatId, LayoutStrategy, ProcessedImage, StandardLayout, VisionProviderId } from "./types";
+import { createJobQueue, isAbortError } from "./services/jobQueue";
+import { ALL_STAGES, PipelineSettings, processSlide, UNCLEANED_BACKGROUND_WARNING } from "./services/slidePipeline";
+import { getDefaultVisionProviderId, VISION_PROVIDERS } from "./services/visionProviders";
+import { DEFAULT_EXPORT_OPTIONS, getExportableImages } from "./services/pptService";
+import { EXPORTERS } from "./services/exporters";
+import { buildFontReport } from "./services/fontService";
+import { imageTypeFromName } from "./services/binaryUtils";
+import { createDiskCacheStore } from "./services/diskCacheStore";
+import { DEFAULT_PRICES, formatCost, getUsageTotals, sumUsage, usageToCsv, withPriceDefaults } from "./services/usageService";
+
+const CLI_REPORT_VERSION = 1;
+
+const LAYOUT_STRATEGIES: LayoutStrategy[] = ['match-first', 'standard', 'split-orientation'];
+const STANDARD_LAYOUTS: StandardLayout[] = ['16:9', '4:3', 'A4'];
+const CLEANING_MODES: BackgroundCleaningMode[] = ['ai', 'local'];
+const DEFAULT_CACHE_DIR = '.img2ppt-cache';
+
+const USAGE = `Usage: img2ppt convert <folder or images...> [options]
+
+Converts slide images into an editable deck and writes a JSON report next to it.
+
+Options:
+  -o, --output <file>      Deck to write (default: deck.pptx); the extension picks the format
+  -f, --format <id>        ${Object.keys(EXPORTERS).join(' | ')} (overrides the extension)
+  -p, --provider <id>      ${Object.values(VISION_PROVIDERS).filter(p => p.headless).map(p => p.id).join(' | ')} (default: VISION_PROVIDER or gemini)
+  -l, --layout <strategy>  ${LAYOUT_STRATEGIES.join(' | ')} (default: match-first)
+      --size <ratio>       ${STANDARD_LAYOUTS.join(' | ')}, for --layout standard (default: 16:9)
+      --cleaning <mode>    ${CLEANING_MODES.join(' | ')} (default: ai); local cleaning needs a browser and keeps the original (exit code 2)
+      --no-shapes          Keep diagram shapes in the background instead of rebuilding them
+      --no-charts          Keep charts in the background instead of rebuilding them
+      --font-names         Ask the model for the typeface of each text block
+      --concurrency <n>    Slides processed in parallel (default: 3)
+      --cache-dir <dir>    Where model answers are cached by image hash (default: ${DEFAULT_CACHE_DIR})
+      --no-cache           Neither read nor write the cache
+      --force              Ignore cached answers and replace them
+      --report <file>      Report to write (default: <output>.report.json)
+      --prices <file>      JSON price table, {"<model>": {"inputPerMillion": n, "outputPerMillion": n}}
+      --usage-csv <file>   Also write per-slide token usage and estimated cost as CSV
+      --api-key <key>      Gemini API key (default: GEMINI_API_KEY or API_KEY)
+  -h, --help               Show this help
+`;
+
+class UsageError extends Error {}
+
+const oneOf = <T extends string>(value: string | undefined, allowed: T[], fallback: T, flag: string): T => {
+  if (value === undefined) return fallback;
+  if (!(allowed as string[]).includes(value)) throw new UsageError(`${flag} must be one of ${allowed.join(', ')}`);
+  return value as T;
+};
+
+// Directories contribute their images (not recursively) in natural order, so slide-2 comes before slide-10
+const collectInputs = async (inputs: string[]): Promise<string[]> => {
+  const files: string[] = [];
+  for (const input of inputs) {
+    if ((await stat(input)).isDirectory()) {
+      const names = (await readdir(input))
+        .filter(name => imageTypeFromName(name))
+        .sort((a, b) => a.localeCompare(b, undefined, { numeric: true }));
+      files.push(...names.map(name => path.join(input, name)));
+    } else {
+      files.push(input);
+    }
+  }
+  return files;
+};
+
+const loadItem = async (filePath: string, index: number): Promise<ProcessedImage> => {
+  const name = path.basename(filePath);
+  const type = imageTypeFromName(name);
+  if (!type) throw new Error(`${name} is not a PNG, JPEG, WebP or GIF image`);
+  const file = new File([await readFile(filePath)], name, { type });
+  return { id: `${index}`, file, previewUrl: '', status: 'pending', width: 0, height: 0 };
+};
+
+const readPrices = async (file: string) => {
+  try {
+    return withPriceDefaults(JSON.parse(await readFile(file, 'utf8')));
+  } catch (err) {
+    throw new UsageError(`--prices: ${(err as Error).message}`);
+  }
+};
+
+interface SlideReport {
+  index: number; // 1-based position in the input order
+  file: string;
+  status: 'completed' | 'error';
+  error?: string;
+  width?: number;
+  height?: number;
+  elements?: number;
+  tables?: number;
+  shapes?: number;
+  charts?: number;
+  cleaning: 'ai' | 'local' | 'none';
+  cache?: ProcessedImage['cache'];
+  usage?: ProcessedImage['usage'];
+  warnings?: string[];
+  durationMs: number;
+}
+
+const parseConvertArgs = (args: string[]) => {
+  try {
+    return parseArgs({
+      args,
+      allowPositionals: true,
+      options: {
+        output: { type: 'string', short: 'o' },
+        format: { type: 'string', short: 'f' },
+        provider: { type: 'string', short: 'p' },
+        layout: { type: 'string', short: 'l' },
+        size: { type: 'string' },
+        cleaning: { type: 'string' },
+        'no-shapes': { type: 'boolean', default: false },
+        'no-charts': { type: 'boolean', default: false },
+        'font-names': { type: 'boolean', default: false },
+        concurrency: { type: 'string' },
+        'cache-dir': { type: 'string' },
+        'no-cache': { type: 'boolean', default: false },
+        force: { type: 'boolean', default: false },
+        report: { type: 'string' },
+        prices: { type: 'string' },
+        'usage-csv': { type: 'string' },
+        'api-key': { type: 'string' },
+      },
+    });
+  } catch (err) {
+    // Unknown flags and missing values
+    throw new UsageError((err as Error).message);
+  }
+};
+
+const convert = async (args: string[]) => {
+  const { values, positionals } = parseConvertArgs(args);
+  if (positionals.length === 0) throw new UsageError("No input folder or images given");
+
+  const output = path.resolve(values.output || 'deck.pptx');
+  const extension = path.extname(output).slice(1).toLowerCase();
+  const format = oneOf(values.format || (extension in EXPORTERS ? extension : undefined), Object.keys(EXPORTERS) as ExportFormatId[], 'pptx', '--format');
+  const exporter = EXPORTERS[format];
+  const headlessProviders = Object.values(VISION_PROVIDERS).filter(p => p.headless).map(p => p.id);
+  const visionProvider = VISION_PROVIDERS[oneOf<VisionProviderId>(values.provider, headlessProviders, getDefaultVisionProviderId(), '--provider')];
+  const apiKey = (values['api-key'] || process.env.GEMINI_API_KEY || process.env.API_KEY || '').trim();
+  if (visionProvider.requiresApiKey && !apiKey) throw new UsageError(`${visionProvider.label} needs an API key: set GEMINI_API_KEY or pass --api-key`);
+  const concurrency = values.concurrency ? Number(values.concurrency) : undefined;
+  if (concurrency !== undefined && !(Number.isInteger(concurrency) && concurrency > 0)) throw new UsageError("--concurrency must be a positive whole number");
+
+  const options = {
+    ...DEFAULT_EXPORT_OPTIONS,
+    strategy: oneOf(values.layout, LAYOUT_STRATEGIES, DEFAULT_EXPORT_OPTIONS.strategy, '--layout'),
+    standardLayout: oneOf(values.size, STANDARD_LAYOUTS, DEFAULT_EXPORT_OPTIONS.standardLayout, '--size'),
+  };
+  const settings: PipelineSettings = {
+    apiKey,
+    visionProvider,
+    cleaningMode: oneOf(values.cleaning, CLEANING_MODES, 'ai', '--cleaning'),
+    rebuildShapes: !values['no-shapes'],
+    rebuildCharts: !values['no-charts'],
+    correctColors: true, // Skipped automatically where pixels cannot be decoded
+    detectFontNames: values['font-names'],
+    cache: values['no-cache'] ? undefined : createDiskCacheStore(path.resolve(values['cache-dir'] || DEFAULT_CACHE_DIR)),
+    refreshCache: values.force,
+  };
+
+  const prices = values.prices ? await readPrices(values.prices) : DEFAULT_PRICES;
+
+  const paths = await collectInputs(positionals);
+  if (paths.length === 0) throw new UsageError("No PNG, JPEG, WebP or GIF images found");
+
+  // Ctrl+C stops queued and in-flight requests; slides finished so far are still exported
+  const controller = new AbortController();
+  process.once('SIGINT', () => {
+    console.error("\nCancelling…");
+    controller.abort();
+  });
+  const queue = createJobQueue({
+    signal: controller.signal,
+    ...(concurrency ? { initialConcurrency: concurrency, maxConcurrency: Math.max(concurrency, 6) } : {}),
+    onRetry: ({ attempt, delayMs, error }) => console.error(`  retry ${attempt} in ${delayMs}ms: ${(error as Error)?.message || error}`),
+  });
+
+  console.error(`Converting ${paths.length} image${paths.length !== 1 ? 's' : ''} with ${visionProvider.label}`);
+  const items: ProcessedImage[] = [];
+  const slides: SlideReport[] = [];
+  let done = 0;
+
+  await Promise.all(paths.map((filePath, index) => queue.add(async () => {
+    const started = Date.now();
+    let report: SlideReport;
+    try {
+      const item = await loadItem(filePath, index);
+      items[index] = item;
+      Object.assign(item, await processSlide(item, ALL_STAGES, settings, queue), { status: 'completed' });
+      report = {
+        index: index + 1,
+        file: filePath,
+        status: 'completed',
+        width: item.width,
+        height: item.height,
+        elements: item.elements?.length || 0,
+        tables: item.tables?.length || 0,
+        shapes: item.shapes?.length || 0,
+        charts: item.charts?.length || 0,
+        cleaning: item.cleaningMethod || 'none',
+        cache: item.cache,
+        usage: item.usage,
+        warnings: item.warnings?.length ? item.warnings : undefined,
+        durationMs: Date.now() - started,
+      };
+    } catch (err) {
+      const error = isAbortError(err) ? "Cancelled" : (err as Error)?.message || String(err);
+      if (items[index]) items[index].status = 'error';
+      report = { index: index + 1, file: filePath, status: 'error', error, cleaning: 'none', durationMs: Date.now() - started };
+    }
+    slides[index] = report;
+    const fromCache = report.cache?.analysis === 'hit' || report.cache?.cleaning === 'hit' ? ' (cached)' : '';
+    console.error(`[${++done}/${paths.length}] ${path.basename(filePath)}: ${report.status === 'completed' ? `${report.elements} blocks${fromCache}` : report.error}`);
+  }).catch(err => {
+    // Never started because the run was cancelled
+    slides[index] = { index: index + 1, file: filePath, status: 'error', error: isAbortError(err) ? "Cancelled" : String(err), cleaning: 'none', durationMs: 0 };
+  })));
+
+  const images = getExportableImages(items.filter(Boolean));
+  const outputs: string[] = [];
+  if (images.length > 0) {
+    await mkdir(path.dirname(output), { recursive: true });
+    const baseName = path.basename(output, path.extname(output));
+    for (const file of await exporter.export(images, options, baseName)) {
+      const target = path.join(path.dirname(output), file.fileName);
+      await writeFile(target, new Uint8Array(await file.data.arrayBuffer()));
+      outputs.push(target);
+    }
+  }
+
+  const reportPath = path.resolve(values.report || `${output.slice(0, output.length - path.extname(output).length)}.report.json`);
+  const failed = slides.filter(s => s.status !== 'completed').length;
+  // Completed, but the deck shows the original text under the editable text; the JSON layout has no background
+  const uncleaned = format === 'json'
+    ? 0
+    : slides.filter(s => s.status === 'completed' && s.warnings?.includes(UNCLEANED_BACKGROUND_WARNING)).length;
+  const usage = getUsageTotals(sumUsage(items.map(i => i?.usage)), prices);
+  const report = {
+    version: CLI_REPORT_VERSION,
+    generatedAt: new Date().toISOString(),
+    provider: visionProvider.id,
+    format,
+    strategy: options.strategy,
+    outputs,
+    summary: { total: slides.length, completed: slides.length - failed, failed, uncleaned },
+    usage: { ...usage, prices },
+    slides,
+    fonts: format === 'json' ? [] : buildFontReport(images, options.fonts),
+  };
+  await writeFile(reportPath, JSON.stringify(report, null, 2));
+  if (values['usage-csv']) {
+    await writeFile(path.resolve(values['usage-csv']), usageToCsv(items.filter(Boolean), prices));
+  }
+
+  outputs.forEach(o => console.error(`Wrote ${o}`));
+  console.error(`Wrote ${reportPath}${failed > 0 ? ` (${failed} slide${failed !== 1 ? 's' : ''} failed)` : ''}`);
+  if (uncleaned > 0) {
+    console.error(`${uncleaned} slide${uncleaned !== 1 ? 's have' : ' has'} no cleaned background and show${uncleaned !== 1 ? '' : 's'} the original text under the editable text`);
+  }
+  console.error(`Used ${usage.requests} model requests, ${usage.inputTokens + usage.outputTokens} tokens, ≈${formatCost(usage.cost)}`);
+  // 1: nothing exported, 2: a deck was written but some slides are missing from it or kept their text in the background
+  return outputs.length === 0 ? 1 : failed > 0 || uncleaned > 0 ? 2 : 0;
+};
+
+const main = async () => {
+  const [command, ...args] = process.argv.slice(2);
+  if (!command || command === '-h' || command === '--help' || args.includes('-h') || args.includes('--help')) {
+    console.log(USAGE);
+    return 0;
+  }
+  if (command !== 'convert') throw new UsageError(`Unknown command "${command}"`);
+  return convert(args);
+};
+
+main().then(code => {
+  process.exitCode = code;
+}, err => {
+  console.error(err instanceof UsageError ? `${err.message}\n\n${USAGE}` : err);
+  process.exitCode = err instanceof UsageError ? 64 : 1;
+});
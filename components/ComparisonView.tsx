@@ -0,0 +1,171 @@
+import React, { useEffect, useState } from 'react';
+import { FontProfile, ProcessedImage } from '../types';
+import { renderReconstruction } from '../services/slideRenderer';
+import { FIDELITY_REVIEW_THRESHOLD, scoreFidelity } from '../services/fidelityService';
+import { X, Loader2, Flag, CheckCircle2 } from 'lucide-react';
+import { clsx } from 'clsx';
+
+interface ComparisonViewProps {
+  item: ProcessedImage;
+  fonts: FontProfile;
+  onScore: (fidelity: number) => void;
+  onClose: () => void;
+}
+
+type Layer = 'original' | 'cleaned' | 'rebuilt';
+type Mode = 'swipe' | 'onion';
+
+const LAYER_LABELS: Record<Layer, string> = {
+  original: 'Original',
+  cleaned: 'Cleaned background',
+  rebuilt: 'Rebuilt slide',
+};
+
+const RENDER_WIDTH = 1600; // Enough for a full-screen comparison without rendering huge images
+
+/**
+ * Puts two versions of a slide on top of each other. Swipe reveals the top
+ * one up to the slider; onion skin fades it in. The rebuilt slide is drawn
+ * here with the current font mapping, and its similarity to the original is
+ * scored at the same time.
+ */
+export const ComparisonView: React.FC<ComparisonViewProps> = ({ item, fonts, onScore, onClose }) => {
+  const [rebuiltUrl, setRebuiltUrl] = useState<string>();
+  const [score, setScore] = useState<number | undefined>(item.fidelity);
+  const [error, setError] = useState<string>();
+  const [base, setBase] = useState<Layer>('original');
+  const [top, setTop] = useState<Layer>('rebuilt');
+  const [mode, setMode] = useState<Mode>('swipe');
+  const [position, setPosition] = useState(50);
+
+  useEffect(() => {
+    let cancelled = false;
+    renderReconstruction(item, fonts, Math.min(RENDER_WIDTH, item.width))
+      .then(canvas => {
+        if (!cancelled) setRebuiltUrl(canvas.toDataURL('image/png'));
+      })
+      .catch(err => {
+        console.error(err);
+        if (!cancelled) setError("Could not render the rebuilt slide");
+      });
+    scoreFidelity(item, fonts)
+      .then(fidelity => {
+        if (cancelled) return;
+        setScore(fidelity);
+        onScore(fidelity);
+      })
+      .catch(err => console.warn("Fidelity scoring failed", err));
+    return () => {
+      cancelled = true;
+    };
+    // Not keyed on the whole item: storing the score would otherwise start another render
+  }, [item.id, item.elements, item.tables, item.shapes, item.charts, item.cleanBackgroundBase64, fonts]);
+
+  const sources: Record<Layer, string | undefined> = {
+    original: item.previewUrl,
+    cleaned: item.cleanBackgroundBase64,
+    rebuilt: rebuiltUrl,
+  };
+  const available = (Object.keys(LAYER_LABELS) as Layer[]).filter(layer => layer !== 'cleaned' || item.cleanBackgroundBase64);
+  const aspectRatio = item.width && item.height ? item.width / item.height : 16 / 9;
+  const flagged = score !== undefined && score < FIDELITY_REVIEW_THRESHOLD;
+
+  const layerSelect = (value: Layer, onChange: (layer: Layer) => void) => (
+    <select
+      value={value}
+      onChange={(e) => onChange(e.target.value as Layer)}
+      className="bg-slate-50 border border-slate-200 rounded px-2 py-1 text-xs text-slate-700 outline-none"
+    >
+      {available.map(layer => <option key={layer} value={layer}>{LAYER_LABELS[layer]}</option>)}
+    </select>
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 bg-slate-900/70 backdrop-blur-sm flex items-center justify-center p-4">
+      <div className="bg-white rounded-xl shadow-xl w-full max-w-7xl max-h-full flex flex-col overflow-hidden">
+        {/* Toolbar */}
+        <div className="px-4 h-14 border-b border-slate-200 flex items-center justify-between gap-4">
+          <span className="text-sm font-semibold text-slate-700 truncate">
+            Compare · {item.file.name}
+          </span>
+          <div className="flex items-center gap-3 text-xs text-slate-600">
+            {score === undefined ? (
+              <span className="flex items-center text-slate-400">
+                <Loader2 className="w-3.5 h-3.5 mr-1 animate-spin" />
+                Scoring…
+              </span>
+            ) : (
+              <span
+                className={clsx("flex items-center font-medium", flagged ? "text-amber-600" : "text-green-600")}
+                title={`Structural similarity (SSIM) of the rebuilt slide to the original; below ${FIDELITY_REVIEW_THRESHOLD} needs review`}
+              >
+                {flagged ? <Flag className="w-3.5 h-3.5 mr-1" /> : <CheckCircle2 className="w-3.5 h-3.5 mr-1" />}
+                Similarity {score.toFixed(2)}{flagged && ' · needs review'}
+              </span>
+            )}
+            <div className="flex rounded-lg border border-slate-200 overflow-hidden">
+              {(['swipe', 'onion'] as Mode[]).map(m => (
+                <button
+                  key={m}
+                  onClick={() => setMode(m)}
+                  className={clsx("px-2.5 py-1 font-medium", mode === m ? "bg-indigo-600 text-white" : "hover:bg-slate-100")}
+                >
+                  {m === 'swipe' ? 'Swipe' : 'Onion skin'}
+                </button>
+              ))}
+            </div>
+            <button
+              onClick={onClose}
+              className="px-3 py-1.5 text-sm font-medium text-slate-600 hover:bg-slate-100 rounded-lg flex items-center"
+            >
+              <X className="w-4 h-4 mr-1.5" />
+              Close
+            </button>
+          </div>
+        </div>
+
+        {/* Stage */}
+        <div className="flex-1 min-h-0 bg-slate-100 p-4 flex items-center justify-center overflow-auto">
+          {error ? (
+            <p className="text-sm text-red-600">{error}</p>
+          ) : (
+            <div className="relative w-full max-h-full select-none" style={{ aspectRatio, maxWidth: `calc((100vh - 12rem) * ${aspectRatio})` }}>
+              {sources[base] && <img src={sources[base]} alt={LAYER_LABELS[base]} className="absolute inset-0 w-full h-full" draggable={false} />}
+              {sources[top] ? (
+                <img
+                  src={sources[top]}
+                  alt={LAYER_LABELS[top]}
+                  className="absolute inset-0 w-full h-full"
+                  draggable={false}
+                  style={mode === 'swipe' ? { clipPath: `inset(0 0 0 ${position}%)` } : { opacity: position / 100 }}
+                />
+              ) : (
+                <div className="absolute inset-0 flex items-center justify-center">
+                  <Loader2 className="w-6 h-6 text-indigo-500 animate-spin" />
+                </div>
+              )}
+              {mode === 'swipe' && (
+                <div className="absolute inset-y-0 w-0.5 bg-white shadow pointer-events-none" style={{ left: `${position}%` }} />
+              )}
+            </div>
+          )}
+        </div>
+
+        {/* Slider */}
+        <div className="px-4 py-3 border-t border-slate-200 flex items-center gap-3 text-xs text-slate-600">
+          {layerSelect(base, setBase)}
+          <input
+            type="range"
+            min={0}
+            max={100}
+            value={position}
+            onChange={(e) => setPosition(Number(e.target.value))}
+            className="flex-1 accent-indigo-600"
+            title={mode === 'swipe' ? 'Drag to move the dividing line' : 'Drag to fade between the two'}
+          />
+          {layerSelect(top, setTop)}
+        </div>
+      </div>
+    </div>
+  );
+};
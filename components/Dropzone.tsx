@@ -1,6 +1,9 @@
 import React, { useCallback } from 'react';
 import { Upload, Image as ImageIcon } from 'lucide-react';
 import { clsx } from 'clsx';
+import { isPdfFile } from '../services/pdfService';
+
+const isAcceptedFile = (file: File) => file.type.startsWith('image/') || isPdfFile(file);
 
 interface DropzoneProps {
   onFilesSelected: (files: File[]) => void;
@@ -13,9 +16,7 @@ export const Dropzone: React.FC<DropzoneProps> = ({ onFilesSelected, disabled })
       e.preventDefault();
       if (disabled) return;
       
-      const files = Array.from(e.dataTransfer.files).filter((file: File) => 
-        file.type.startsWith('image/')
-      );
+      const files = Array.from(e.dataTransfer.files).filter(isAcceptedFile);
       if (files.length > 0) {
         onFilesSelected(files);
       }
@@ -25,9 +26,7 @@ export const Dropzone: React.FC<DropzoneProps> = ({ onFilesSelected, disabled })
 
   const handleFileInput = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (disabled || !e.target.files) return;
-    const files = Array.from(e.target.files).filter((file: File) => 
-      file.type.startsWith('image/')
-    );
+    const files = Array.from(e.target.files).filter(isAcceptedFile);
     onFilesSelected(files);
   };
 
@@ -45,7 +44,7 @@ export const Dropzone: React.FC<DropzoneProps> = ({ onFilesSelected, disabled })
       <input
         type="file"
         multiple
-        accept="image/png, image/jpeg, image/jpg"
+        accept="image/png, image/jpeg, image/jpg, application/pdf"
         onChange={handleFileInput}
         disabled={disabled}
         className="absolute inset-0 w-full h-full opacity-0 cursor-pointer disabled:cursor-not-allowed"
@@ -60,10 +59,10 @@ export const Dropzone: React.FC<DropzoneProps> = ({ onFilesSelected, disabled })
         </div>
         <div>
           <h3 className="text-lg font-semibold text-slate-800">
-            {disabled ? "Processing..." : "Drop images here"}
+            {disabled ? "Processing..." : "Drop images or PDFs here"}
           </h3>
           <p className="text-sm text-slate-500 mt-1">
-            or click to select (PNG, JPG)
+            or click to select (PNG, JPG, PDF)
           </p>
         </div>
       </div>
@@ -0,0 +1,414 @@
+import React, { useState, useRef, useEffect, useCallback } from 'react';
+import { ProcessedImage, DetectedTextElement } from '../types';
+import { X, Save, Trash2, SquarePlus, AlignLeft, AlignCenter, AlignRight, Bold } from 'lucide-react';
+import { clsx } from 'clsx';
+
+interface ElementEditorProps {
+  item: ProcessedImage;
+  onSave: (elements: DetectedTextElement[]) => void;
+  onClose: () => void;
+}
+
+type Box = DetectedTextElement['box_2d'];
+type Handle = 'nw' | 'ne' | 'sw' | 'se';
+
+// Active pointer interaction. Coordinates are kept in the 0-1000 box_2d space.
+type DragState =
+  | { mode: 'move'; index: number; startX: number; startY: number; origin: Box }
+  | { mode: 'resize'; index: number; handle: Handle; startX: number; startY: number; origin: Box }
+  | { mode: 'draw'; startX: number; startY: number };
+
+const MIN_BOX_SIZE = 10; // Smallest box edge in 0-1000 units
+
+const clamp = (v: number, min: number, max: number) => Math.min(max, Math.max(min, v));
+
+const createElement = (box: Box): DetectedTextElement => ({
+  text: 'New text',
+  box_2d: box,
+  textColor: '#000000',
+  hasContainer: false,
+  fontSize: 0,
+  fontFamily: 'sans-serif',
+  fontWeight: 'normal',
+  fontStyle: 'normal',
+  isTitle: false,
+  alignment: 'left',
+});
+
+// Ensure a colour value is usable by <input type="color"> (requires #rrggbb)
+const toColorInput = (hex?: string, fallback = '#000000'): string => {
+  if (!hex) return fallback;
+  let clean = hex.replace('#', '').trim();
+  if (clean.length === 3) clean = clean.split('').map(c => c + c).join('');
+  return /^[0-9a-fA-F]{6}$/.test(clean) ? `#${clean}` : fallback;
+};
+
+const HANDLES: Handle[] = ['nw', 'ne', 'sw', 'se'];
+
+/**
+ * Applies a manual text edit. Styled runs can no longer be mapped onto the new
+ * text, and paragraph formats only survive while the line count is unchanged.
+ */
+const withEditedText = (el: DetectedTextElement, text: string): Partial<DetectedTextElement> => ({
+  text,
+  runs: undefined,
+  paragraphs: el.paragraphs && el.paragraphs.length === text.split('\n').length ? el.paragraphs : undefined,
+});
+
+/**
+ * Full-size editor for correcting the detected layout of a single slide.
+ * Works on a draft copy of the elements; nothing is written back until Save.
+ */
+export const ElementEditor: React.FC<ElementEditorProps> = ({ item, onSave, onClose }) => {
+  const [elements, setElements] = useState<DetectedTextElement[]>(() =>
+    (item.elements || []).map(el => ({ ...el, box_2d: [...el.box_2d] as Box }))
+  );
+  const [selected, setSelected] = useState<number | null>(null);
+  const [drawMode, setDrawMode] = useState(false);
+  const [drag, setDrag] = useState<DragState | null>(null);
+  const [draft, setDraft] = useState<Box | null>(null);
+  const stageRef = useRef<HTMLDivElement>(null);
+  const draftRef = useRef<Box | null>(null);
+  draftRef.current = draft;
+
+  const aspectRatio = item.width && item.height ? item.width / item.height : 16 / 9;
+
+  // Convert a pointer position into 0-1000 stage coordinates
+  const toStage = useCallback((clientX: number, clientY: number) => {
+    const rect = stageRef.current?.getBoundingClientRect();
+    if (!rect || rect.width === 0 || rect.height === 0) return { x: 0, y: 0 };
+    return {
+      x: clamp(((clientX - rect.left) / rect.width) * 1000, 0, 1000),
+      y: clamp(((clientY - rect.top) / rect.height) * 1000, 0, 1000),
+    };
+  }, []);
+
+  const updateElement = (index: number, patch: Partial<DetectedTextElement>) => {
+    setElements(prev => prev.map((el, i) => (i === index ? { ...el, ...patch } : el)));
+  };
+
+  const deleteElement = (index: number) => {
+    setElements(prev => prev.filter((_, i) => i !== index));
+    setSelected(null);
+  };
+
+  useEffect(() => {
+    if (!drag) return;
+
+    const handleMove = (e: PointerEvent) => {
+      const { x, y } = toStage(e.clientX, e.clientY);
+
+      if (drag.mode === 'draw') {
+        setDraft([
+          Math.min(drag.startY, y),
+          Math.min(drag.startX, x),
+          Math.max(drag.startY, y),
+          Math.max(drag.startX, x),
+        ]);
+        return;
+      }
+
+      const dx = x - drag.startX;
+      const dy = y - drag.startY;
+      const [ymin, xmin, ymax, xmax] = drag.origin;
+
+      if (drag.mode === 'move') {
+        const h = ymax - ymin;
+        const w = xmax - xmin;
+        const top = clamp(ymin + dy, 0, 1000 - h);
+        const left = clamp(xmin + dx, 0, 1000 - w);
+        updateElement(drag.index, { box_2d: [top, left, top + h, left + w] });
+        return;
+      }
+
+      let [top, left, bottom, right] = drag.origin;
+      if (drag.handle.includes('n')) top = clamp(ymin + dy, 0, ymax - MIN_BOX_SIZE);
+      if (drag.handle.includes('s')) bottom = clamp(ymax + dy, ymin + MIN_BOX_SIZE, 1000);
+      if (drag.handle.includes('w')) left = clamp(xmin + dx, 0, xmax - MIN_BOX_SIZE);
+      if (drag.handle.includes('e')) right = clamp(xmax + dx, xmin + MIN_BOX_SIZE, 1000);
+      updateElement(drag.index, { box_2d: [top, left, bottom, right] });
+    };
+
+    const handleUp = () => {
+      if (drag.mode === 'draw') {
+        const box = draftRef.current;
+        if (box && box[2] - box[0] >= MIN_BOX_SIZE && box[3] - box[1] >= MIN_BOX_SIZE) {
+          setSelected(elements.length);
+          setElements(prev => [...prev, createElement(box.map(Math.round) as Box)]);
+        }
+        setDraft(null);
+        setDrawMode(false);
+      } else {
+        // Keep stored coordinates integral like the model output
+        setElements(prev => prev.map((el, i) =>
+          i === drag.index ? { ...el, box_2d: el.box_2d.map(Math.round) as Box } : el
+        ));
+      }
+      setDrag(null);
+    };
+
+    window.addEventListener('pointermove', handleMove);
+    window.addEventListener('pointerup', handleUp);
+    return () => {
+      window.removeEventListener('pointermove', handleMove);
+      window.removeEventListener('pointerup', handleUp);
+    };
+  }, [drag, toStage, elements.length]);
+
+  const handleStagePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!drawMode) {
+      setSelected(null);
+      return;
+    }
+    e.preventDefault();
+    const { x, y } = toStage(e.clientX, e.clientY);
+    setDraft([y, x, y, x]);
+    setDrag({ mode: 'draw', startX: x, startY: y });
+  };
+
+  const handleBoxPointerDown = (e: React.PointerEvent<HTMLDivElement>, index: number) => {
+    if (drawMode) return;
+    e.preventDefault();
+    e.stopPropagation();
+    const { x, y } = toStage(e.clientX, e.clientY);
+    setSelected(index);
+    setDrag({ mode: 'move', index, startX: x, startY: y, origin: elements[index].box_2d });
+  };
+
+  const handleHandlePointerDown = (e: React.PointerEvent<HTMLDivElement>, index: number, handle: Handle) => {
+    e.preventDefault();
+    e.stopPropagation();
+    const { x, y } = toStage(e.clientX, e.clientY);
+    setDrag({ mode: 'resize', index, handle, startX: x, startY: y, origin: elements[index].box_2d });
+  };
+
+  const current = selected !== null ? elements[selected] : undefined;
+
+  return (
+    <div className="fixed inset-0 z-50 bg-slate-900/70 backdrop-blur-sm flex items-center justify-center p-4">
+      <div className="bg-white rounded-xl shadow-xl w-full max-w-7xl max-h-full flex flex-col overflow-hidden">
+        {/* Toolbar */}
+        <div className="px-4 h-14 border-b border-slate-200 flex items-center justify-between">
+          <span className="text-sm font-semibold text-slate-700 truncate max-w-[50%]">
+            Edit layout · {item.file.name}
+          </span>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => setDrawMode(!drawMode)}
+              className={clsx(
+                "px-3 py-1.5 text-sm font-medium rounded-lg flex items-center transition-colors",
+                drawMode ? "bg-indigo-600 text-white" : "text-slate-600 hover:bg-slate-100"
+              )}
+              title="Drag on the slide to add a text box"
+            >
+              <SquarePlus className="w-4 h-4 mr-1.5" />
+              Draw Box
+            </button>
+            <button
+              onClick={onClose}
+              className="px-3 py-1.5 text-sm font-medium text-slate-600 hover:bg-slate-100 rounded-lg flex items-center"
+            >
+              <X className="w-4 h-4 mr-1.5" />
+              Cancel
+            </button>
+            <button
+              onClick={() => onSave(elements)}
+              className="px-4 py-1.5 text-sm font-semibold text-white bg-indigo-600 hover:bg-indigo-700 rounded-lg flex items-center shadow-sm"
+            >
+              <Save className="w-4 h-4 mr-1.5" />
+              Save
+            </button>
+          </div>
+        </div>
+
+        <div className="flex flex-1 min-h-0">
+          {/* Stage */}
+          <div className="flex-1 bg-slate-100 p-6 flex items-center justify-center overflow-auto">
+            <div
+              ref={stageRef}
+              onPointerDown={handleStagePointerDown}
+              className={clsx("relative w-full max-h-[75vh] select-none", drawMode && "cursor-crosshair")}
+              style={{ aspectRatio: `${aspectRatio}`, maxWidth: `calc(75vh * ${aspectRatio})` }}
+            >
+              <img src={item.previewUrl} alt="Slide" className="absolute inset-0 w-full h-full" draggable={false} />
+
+              {elements.map((el, idx) => {
+                const [ymin, xmin, ymax, xmax] = el.box_2d;
+                const isSelected = idx === selected;
+                return (
+                  <div
+                    key={idx}
+                    onPointerDown={(e) => handleBoxPointerDown(e, idx)}
+                    className={clsx(
+                      "absolute border transition-colors",
+                      drawMode ? "pointer-events-none" : "cursor-move",
+                      isSelected
+                        ? "border-indigo-600 bg-indigo-500/20"
+                        : "border-indigo-500/60 bg-indigo-500/10 hover:bg-indigo-500/20"
+                    )}
+                    style={{
+                      top: `${ymin / 10}%`,
+                      left: `${xmin / 10}%`,
+                      height: `${(ymax - ymin) / 10}%`,
+                      width: `${(xmax - xmin) / 10}%`,
+                    }}
+                    title={el.text}
+                  >
+                    {isSelected && HANDLES.map(handle => (
+                      <div
+                        key={handle}
+                        onPointerDown={(e) => handleHandlePointerDown(e, idx, handle)}
+                        className={clsx(
+                          "absolute w-2.5 h-2.5 bg-white border border-indigo-600 rounded-sm",
+                          handle.includes('n') ? "-top-1.5" : "-bottom-1.5",
+                          handle.includes('w') ? "-left-1.5" : "-right-1.5",
+                          handle === 'nw' || handle === 'se' ? "cursor-nwse-resize" : "cursor-nesw-resize"
+                        )}
+                      />
+                    ))}
+                  </div>
+                );
+              })}
+
+              {draft && (
+                <div
+                  className="absolute border-2 border-dashed border-indigo-600 bg-indigo-500/10 pointer-events-none"
+                  style={{
+                    top: `${draft[0] / 10}%`,
+                    left: `${draft[1] / 10}%`,
+                    height: `${(draft[2] - draft[0]) / 10}%`,
+                    width: `${(draft[3] - draft[1]) / 10}%`,
+                  }}
+                />
+              )}
+            </div>
+          </div>
+
+          {/* Properties */}
+          <aside className="w-72 border-l border-slate-200 p-4 overflow-y-auto space-y-4">
+            {current && selected !== null ? (
+              <>
+                <div className="space-y-1">
+                  <label className="text-xs font-medium text-slate-500">Text</label>
+                  <textarea
+                    value={current.text}
+                    onChange={(e) => updateElement(selected, withEditedText(current, e.target.value))}
+                    rows={4}
+                    className="w-full text-sm border border-slate-200 rounded-lg p-2 outline-none focus:border-indigo-400 focus:ring-2 focus:ring-indigo-100"
+                  />
+                </div>
+
+                <div className="flex items-center justify-between">
+                  <label className="text-xs font-medium text-slate-500">Text color</label>
+                  <input
+                    type="color"
+                    value={toColorInput(current.textColor)}
+                    onChange={(e) => updateElement(selected, { textColor: e.target.value })}
+                    className="w-10 h-7 cursor-pointer"
+                  />
+                </div>
+
+                <div className="flex items-center justify-between">
+                  <label className="text-xs font-medium text-slate-500 flex items-center">
+                    <input
+                      type="checkbox"
+                      checked={current.hasContainer}
+                      onChange={(e) => updateElement(selected, {
+                        hasContainer: e.target.checked,
+                        containerColor: current.containerColor || '#FFFFFF',
+                      })}
+                      className="mr-2"
+                    />
+                    Container
+                  </label>
+                  <input
+                    type="color"
+                    value={toColorInput(current.containerColor, '#ffffff')}
+                    onChange={(e) => updateElement(selected, { containerColor: e.target.value })}
+                    disabled={!current.hasContainer}
+                    className="w-10 h-7 cursor-pointer disabled:opacity-40 disabled:cursor-not-allowed"
+                  />
+                </div>
+
+                <div className="flex items-center justify-between">
+                  <label className="text-xs font-medium text-slate-500">Style</label>
+                  <div className="flex items-center gap-1">
+                    <button
+                      onClick={() => updateElement(selected, { fontWeight: current.fontWeight === 'bold' ? 'normal' : 'bold' })}
+                      className={clsx(
+                        "p-1.5 rounded-md",
+                        current.fontWeight === 'bold' ? "bg-indigo-100 text-indigo-700" : "text-slate-500 hover:bg-slate-100"
+                      )}
+                      title="Bold"
+                    >
+                      <Bold className="w-4 h-4" />
+                    </button>
+                    {(['left', 'center', 'right'] as const).map(align => {
+                      const Icon = align === 'left' ? AlignLeft : align === 'center' ? AlignCenter : AlignRight;
+                      return (
+                        <button
+                          key={align}
+                          onClick={() => updateElement(selected, { alignment: align })}
+                          className={clsx(
+                            "p-1.5 rounded-md",
+                            current.alignment === align ? "bg-indigo-100 text-indigo-700" : "text-slate-500 hover:bg-slate-100"
+                          )}
+                          title={`Align ${align}`}
+                        >
+                          <Icon className="w-4 h-4" />
+                        </button>
+                      );
+                    })}
+                  </div>
+                </div>
+
+                <div className="flex items-center justify-between">
+                  <label className="text-xs font-medium text-slate-500 flex items-center">
+                    <input
+                      type="checkbox"
+                      checked={!!current.vertical}
+                      onChange={(e) => updateElement(selected, { vertical: e.target.checked || undefined })}
+                      className="mr-2"
+                    />
+                    Vertical
+                  </label>
+                  <label className="text-xs font-medium text-slate-500 flex items-center" title="Degrees clockwise; the box stays around the rotated text">
+                    Rotation
+                    <input
+                      type="number"
+                      min={-180}
+                      max={180}
+                      value={current.rotation || 0}
+                      onChange={(e) => {
+                        const rotation = Math.max(-180, Math.min(180, Number(e.target.value) || 0));
+                        updateElement(selected, { rotation: rotation || undefined });
+                      }}
+                      className="ml-2 w-16 border border-slate-200 rounded-md px-1.5 py-1 text-sm text-slate-700 outline-none focus:border-indigo-400"
+                    />
+                    °
+                  </label>
+                </div>
+
+                <button
+                  onClick={() => deleteElement(selected)}
+                  className="w-full px-3 py-2 text-sm font-medium text-red-600 hover:bg-red-50 rounded-lg flex items-center justify-center transition-colors"
+                >
+                  <Trash2 className="w-4 h-4 mr-2" />
+                  Delete Box
+                </button>
+              </>
+            ) : (
+              <p className="text-sm text-slate-500">
+                Select a box to edit its text and style, drag to move it, or use the corner handles to resize.
+                Use <span className="font-medium text-slate-700">Draw Box</span> to add text the model missed.
+              </p>
+            )}
+            <p className="text-xs text-slate-400 pt-2 border-t border-slate-100">
+              {elements.length} block{elements.length !== 1 ? 's' : ''}
+            </p>
+          </aside>
+        </div>
+      </div>
+    </div>
+  );
+};
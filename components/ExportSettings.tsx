@@ -0,0 +1,107 @@
+import React from 'react';
+import { PptExportOptions, LayoutStrategy, StandardLayout, ExportFormatId } from '../types';
+import { EXPORTERS } from '../services/exporters';
+import { FontProfileEditor } from './FontProfileEditor';
+import { LayoutTemplate } from 'lucide-react';
+
+interface ExportSettingsProps {
+  format: ExportFormatId;
+  onFormatChange: (format: ExportFormatId) => void;
+  options: PptExportOptions;
+  onChange: (options: PptExportOptions) => void;
+  disabled?: boolean;
+}
+
+// Only slide-deck formats have a page size; HTML and JSON keep each slide's own ratio
+const DECK_FORMATS: ExportFormatId[] = ['pptx', 'odp'];
+
+const STRATEGY_LABELS: Record<LayoutStrategy, string> = {
+  'match-first': 'Match first slide',
+  'standard': 'Fit to standard size',
+  'split-orientation': 'Split by orientation',
+};
+
+const LETTERBOX_PRESETS = [
+  { value: '000000', label: 'Black bars' },
+  { value: 'FFFFFF', label: 'White bars' },
+  { value: 'auto', label: 'Extend edge color' },
+];
+
+const selectClassName = "bg-slate-100 border border-slate-200 rounded-md px-2 py-1 text-xs text-slate-700 outline-none focus:border-indigo-400 disabled:opacity-50";
+
+export const ExportSettings: React.FC<ExportSettingsProps> = ({ format, onFormatChange, options, onChange, disabled }) => {
+  const update = (patch: Partial<PptExportOptions>) => onChange({ ...options, ...patch });
+  const isCustomColor = !LETTERBOX_PRESETS.some(p => p.value === options.letterboxColor);
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-xs text-slate-500">
+      <LayoutTemplate className="w-4 h-4" />
+      <select
+        value={format}
+        onChange={(e) => onFormatChange(e.target.value as ExportFormatId)}
+        disabled={disabled}
+        className={selectClassName}
+        title={EXPORTERS[format].description}
+      >
+        {Object.values(EXPORTERS).map(exporter => (
+          <option key={exporter.id} value={exporter.id}>{exporter.label} (.{exporter.extension})</option>
+        ))}
+      </select>
+
+      {format !== 'json' && (
+        <FontProfileEditor profile={options.fonts} onChange={(fonts) => update({ fonts })} disabled={disabled} />
+      )}
+
+      {DECK_FORMATS.includes(format) && (
+        <>
+          <select
+            value={options.strategy}
+            onChange={(e) => update({ strategy: e.target.value as LayoutStrategy })}
+            disabled={disabled}
+            className={selectClassName}
+            title="How slides with different aspect ratios are laid out"
+          >
+            {(Object.keys(STRATEGY_LABELS) as LayoutStrategy[]).map(s => (
+              <option key={s} value={s}>{STRATEGY_LABELS[s]}</option>
+            ))}
+          </select>
+
+          {options.strategy === 'standard' && (
+            <select
+              value={options.standardLayout}
+              onChange={(e) => update({ standardLayout: e.target.value as StandardLayout })}
+              disabled={disabled}
+              className={selectClassName}
+            >
+              <option value="16:9">16:9</option>
+              <option value="4:3">4:3</option>
+              <option value="A4">A4</option>
+            </select>
+          )}
+
+          <select
+            value={isCustomColor ? 'custom' : options.letterboxColor}
+            onChange={(e) => update({ letterboxColor: e.target.value === 'custom' ? '#4F46E5' : e.target.value })}
+            disabled={disabled}
+            className={selectClassName}
+            title="Fill for the bars around slides that don't match the deck's aspect ratio"
+          >
+            {LETTERBOX_PRESETS.map(p => (
+              <option key={p.value} value={p.value}>{p.label}</option>
+            ))}
+            <option value="custom">Custom color</option>
+          </select>
+          {isCustomColor && (
+            <input
+              type="color"
+              value={options.letterboxColor}
+              onChange={(e) => update({ letterboxColor: e.target.value })}
+              disabled={disabled}
+              className="w-8 h-6 cursor-pointer"
+            />
+          )}
+        </>
+      )}
+    </div>
+  );
+};
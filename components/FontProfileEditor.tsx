@@ -0,0 +1,126 @@
+import React, { useState } from 'react';
+import { DetectedTextElement, EastAsianScript, FontProfile } from '../types';
+import { DEFAULT_FONT_PROFILE, EAST_ASIAN_LABELS, FONT_FAMILY_LABELS, isFontAvailable } from '../services/fontService';
+import { Type, RotateCcw } from 'lucide-react';
+
+interface FontProfileEditorProps {
+  profile: FontProfile;
+  onChange: (profile: FontProfile) => void;
+  disabled?: boolean;
+}
+
+const inputClassName = "w-32 bg-slate-50 border border-slate-200 rounded px-2 py-1 text-xs text-slate-700 outline-none focus:border-indigo-400";
+
+// Marks a face that this browser cannot find, so the user knows viewers may not have it either
+const FaceInput: React.FC<{ value: string; placeholder?: string; onChange: (value: string) => void }> = ({ value, placeholder, onChange }) => {
+  const missing = value.trim() !== '' && isFontAvailable(value.trim()) === false;
+  return (
+    <input
+      type="text"
+      value={value}
+      placeholder={placeholder}
+      onChange={(e) => onChange(e.target.value)}
+      className={`${inputClassName} ${missing ? 'border-amber-400 text-amber-700' : ''}`}
+      style={{ fontFamily: value ? `"${value}", sans-serif` : undefined }}
+      title={missing ? `${value} is not installed on this computer` : undefined}
+    />
+  );
+};
+
+export const FontProfileEditor: React.FC<FontProfileEditorProps> = ({ profile, onChange, disabled }) => {
+  const [open, setOpen] = useState(false);
+  const families = Object.keys(FONT_FAMILY_LABELS) as DetectedTextElement['fontFamily'][];
+
+  const updateFamily = (family: DetectedTextElement['fontFamily'], patch: { regular?: string; bold?: string }) => {
+    const mapping = { ...profile.families[family], ...patch };
+    onChange({ ...profile, families: { ...profile.families, [family]: mapping } });
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        disabled={disabled}
+        className="flex items-center bg-slate-100 border border-slate-200 rounded-md px-2 py-1 text-xs text-slate-700 hover:bg-slate-200 disabled:opacity-50"
+        title="Choose the font faces used for each detected font style"
+      >
+        <Type className="w-3.5 h-3.5 mr-1" />
+        Fonts
+      </button>
+
+      {open && (
+        <div className="absolute bottom-full mb-2 left-0 z-20 bg-white border border-slate-200 rounded-lg shadow-lg p-3 w-max">
+          <div className="flex items-center justify-between mb-2">
+            <span className="text-xs font-semibold text-slate-700">Font mapping</span>
+            <button
+              onClick={() => onChange(DEFAULT_FONT_PROFILE)}
+              className="flex items-center text-xs text-slate-500 hover:text-slate-700"
+              title="Restore the default fonts"
+            >
+              <RotateCcw className="w-3 h-3 mr-1" />
+              Reset
+            </button>
+          </div>
+          <table className="text-xs text-slate-600">
+            <thead>
+              <tr>
+                <th className="text-left font-medium pr-2 pb-1">Detected</th>
+                <th className="text-left font-medium pr-2 pb-1">Regular</th>
+                <th className="text-left font-medium pb-1">Bold</th>
+              </tr>
+            </thead>
+            <tbody>
+              {families.map(family => (
+                <tr key={family}>
+                  <td className="pr-2 py-0.5">{FONT_FAMILY_LABELS[family]}</td>
+                  <td className="pr-2 py-0.5">
+                    <FaceInput
+                      value={profile.families[family].regular}
+                      onChange={(regular) => updateFamily(family, { regular })}
+                    />
+                  </td>
+                  <td className="py-0.5">
+                    <FaceInput
+                      value={profile.families[family].bold || ''}
+                      placeholder="Same as regular"
+                      onChange={(bold) => updateFamily(family, { bold: bold || undefined })}
+                    />
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <table className="text-xs text-slate-600 mt-2">
+            <thead>
+              <tr>
+                <th className="text-left font-medium pr-2 pb-1" colSpan={2}>East Asian text</th>
+              </tr>
+            </thead>
+            <tbody>
+              {(Object.keys(EAST_ASIAN_LABELS) as EastAsianScript[]).map(script => (
+                <tr key={script}>
+                  <td className="pr-2 py-0.5">{EAST_ASIAN_LABELS[script]}</td>
+                  <td className="py-0.5">
+                    <FaceInput
+                      value={profile.eastAsian[script]}
+                      onChange={(face) => onChange({ ...profile, eastAsian: { ...profile.eastAsian, [script]: face } })}
+                    />
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <label className="flex items-center mt-2 text-xs text-slate-600 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={profile.useDetectedNames}
+              onChange={(e) => onChange({ ...profile, useDetectedNames: e.target.checked })}
+              className="mr-1.5"
+            />
+            Use detected font names when installed
+          </label>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,65 @@
+import React from 'react';
+import { FontReportEntry } from '../services/fontService';
+import { AlertTriangle, Check, X } from 'lucide-react';
+
+interface FontReportProps {
+  entries: FontReportEntry[];
+  onClose: () => void;
+}
+
+const REASONS: Record<FontReportEntry['reason'], string> = {
+  detected: 'Detected font',
+  mapped: 'Font mapping',
+  'not-installed': 'Detected font not installed, mapped',
+};
+
+const formatSlides = (slides: number[]) =>
+  slides.length > 6 ? `${slides.slice(0, 6).join(', ')} +${slides.length - 6}` : slides.join(', ');
+
+export const FontReport: React.FC<FontReportProps> = ({ entries, onClose }) => {
+  const substitutions = entries.filter(e => e.substituted).length;
+
+  return (
+    <section className="bg-white p-4 rounded-xl shadow-sm border border-slate-200">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="text-sm font-semibold text-slate-700 flex items-center">
+          {substitutions > 0
+            ? <AlertTriangle className="w-4 h-4 mr-1.5 text-amber-500" />
+            : <Check className="w-4 h-4 mr-1.5 text-green-600" />}
+          Fonts in this export
+          {substitutions > 0 && <span className="ml-1 font-normal text-amber-700">({substitutions} substituted)</span>}
+        </h3>
+        <button onClick={onClose} className="text-slate-400 hover:text-slate-600" title="Close">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+      <div className="overflow-x-auto">
+        <table className="w-full text-xs text-slate-600">
+          <thead>
+            <tr className="text-left text-slate-500">
+              <th className="font-medium py-1 pr-3">Detected</th>
+              <th className="font-medium py-1 pr-3">Exported as</th>
+              <th className="font-medium py-1 pr-3">Why</th>
+              <th className="font-medium py-1 pr-3">Blocks</th>
+              <th className="font-medium py-1">Slides</th>
+            </tr>
+          </thead>
+          <tbody>
+            {entries.map(entry => (
+              <tr key={`${entry.detected}:${entry.used}`} className={entry.substituted ? 'text-amber-800' : undefined}>
+                <td className="py-1 pr-3">{entry.detected}</td>
+                <td className="py-1 pr-3">
+                  {entry.used}
+                  {entry.installed === false && <span className="ml-1 text-amber-600">(not installed here)</span>}
+                </td>
+                <td className="py-1 pr-3">{REASONS[entry.reason]}</td>
+                <td className="py-1 pr-3">{entry.elements}</td>
+                <td className="py-1">{formatSlides(entry.slides)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </section>
+  );
+};
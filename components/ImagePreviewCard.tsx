@@ -1,13 +1,26 @@
 import React, { useState, useEffect } from 'react';
 import { ProcessedImage } from '../types';
-import { Loader2, CheckCircle2, AlertCircle, Eye, EyeOff } from 'lucide-react';
+import type { PipelineStage } from '../services/slidePipeline';
+import { getTextThickness, unrotateFrame } from '../services/layoutUtils';
+import { needsReview } from '../services/fidelityService';
+import { Loader2, CheckCircle2, AlertCircle, Eye, EyeOff, Pencil, RotateCcw, ScanText, Eraser, AlertTriangle, RefreshCw, Database, Columns2, Flag } from 'lucide-react';
 import { clsx } from 'clsx';
 
 interface ImagePreviewCardProps {
   item: ProcessedImage;
+  onEdit?: () => void;
+  onCompare?: () => void;
+  onRetry?: () => void;
+  onRerunStage?: (stage: PipelineStage) => void;
+  onForceRerun?: () => void; // Both stages again, ignoring cached model answers
+  busy?: boolean; // Another run is in progress; re-runs are disabled until it ends
 }
 
-export const ImagePreviewCard: React.FC<ImagePreviewCardProps> = ({ item }) => {
+const CACHE_LABELS = { hit: 'from cache', miss: 'new request' };
+
+export const ImagePreviewCard: React.FC<ImagePreviewCardProps> = ({ item, onEdit, onCompare, onRetry, onRerunStage, onForceRerun, busy }) => {
+  const cacheHit = item.cache?.analysis === 'hit' || item.cache?.cleaning === 'hit';
+  const ghostText = item.ghostText;
   const [showOverlay, setShowOverlay] = useState(true);
   const [imageLoaded, setImageLoaded] = useState(false);
 
@@ -19,17 +32,31 @@ export const ImagePreviewCard: React.FC<ImagePreviewCardProps> = ({ item }) => {
       <div className="absolute inset-0 pointer-events-none overflow-hidden rounded-lg">
         {item.elements.map((el, idx) => {
           const [ymin, xmin, ymax, xmax] = el.box_2d;
+          let frame = { x: xmin / 10, y: ymin / 10, w: (xmax - xmin) / 10, h: (ymax - ymin) / 10 };
+          if (el.rotation && item.width && item.height) {
+            // Unrotate in pixels, where both axes share a unit, then back to percentages
+            const px = unrotateFrame(
+              { x: (frame.x / 100) * item.width, y: (frame.y / 100) * item.height, w: (frame.w / 100) * item.width, h: (frame.h / 100) * item.height },
+              el.rotation,
+              (getTextThickness(el) / 1000) * item.height
+            );
+            frame = { x: (px.x / item.width) * 100, y: (px.y / item.height) * 100, w: (px.w / item.width) * 100, h: (px.h / item.height) * 100 };
+          }
           return (
             <div
               key={idx}
-              className="absolute border border-indigo-500/50 bg-indigo-500/10 hover:bg-indigo-500/20 transition-colors flex items-center justify-center group"
+              className={clsx(
+                "absolute border border-indigo-500/50 bg-indigo-500/10 hover:bg-indigo-500/20 transition-colors flex items-center justify-center group",
+                el.vertical && "border-r-2 border-r-indigo-500"
+              )}
               style={{
-                top: `${ymin / 10}%`,
-                left: `${xmin / 10}%`,
-                height: `${(ymax - ymin) / 10}%`,
-                width: `${(xmax - xmin) / 10}%`,
+                top: `${frame.y}%`,
+                left: `${frame.x}%`,
+                height: `${frame.h}%`,
+                width: `${frame.w}%`,
+                transform: el.rotation && item.width && item.height ? `rotate(${el.rotation}deg)` : undefined,
               }}
-              title={el.text}
+              title={`${el.text}${el.rotation ? ` (rotated ${el.rotation}°)` : ''}${el.vertical ? ' (vertical)' : ''}`}
             >
              <span className="hidden group-hover:block absolute -top-6 left-0 bg-black text-white text-[10px] px-1 py-0.5 rounded truncate max-w-full">
                {el.text}
@@ -37,6 +64,54 @@ export const ImagePreviewCard: React.FC<ImagePreviewCardProps> = ({ item }) => {
             </div>
           );
         })}
+        {item.shapes?.map((shape, idx) => {
+          const [ymin, xmin, ymax, xmax] = shape.box_2d;
+          return (
+            <div
+              key={`shape-${idx}`}
+              className="absolute border border-dashed border-amber-500/70"
+              style={{
+                top: `${ymin / 10}%`,
+                left: `${xmin / 10}%`,
+                height: `${(ymax - ymin) / 10}%`,
+                width: `${(xmax - xmin) / 10}%`,
+              }}
+              title={shape.kind}
+            />
+          );
+        })}
+        {item.charts?.map((chart, idx) => {
+          const [ymin, xmin, ymax, xmax] = chart.box_2d;
+          return (
+            <div
+              key={`chart-${idx}`}
+              className="absolute border border-sky-500/60 bg-sky-500/10"
+              style={{
+                top: `${ymin / 10}%`,
+                left: `${xmin / 10}%`,
+                height: `${(ymax - ymin) / 10}%`,
+                width: `${(xmax - xmin) / 10}%`,
+              }}
+              title={`${chart.chartType} chart${chart.title ? `: ${chart.title}` : ''}`}
+            />
+          );
+        })}
+        {item.tables?.map((table, idx) => {
+          const [ymin, xmin, ymax, xmax] = table.box_2d;
+          return (
+            <div
+              key={`table-${idx}`}
+              className="absolute border border-emerald-500/60 bg-emerald-500/10"
+              style={{
+                top: `${ymin / 10}%`,
+                left: `${xmin / 10}%`,
+                height: `${(ymax - ymin) / 10}%`,
+                width: `${(xmax - xmin) / 10}%`,
+              }}
+              title={`Table ${table.rows}×${table.cols}`}
+            />
+          );
+        })}
       </div>
     );
   };
@@ -54,13 +129,63 @@ export const ImagePreviewCard: React.FC<ImagePreviewCardProps> = ({ item }) => {
         <Overlay />
 
         {/* Status Overlay */}
-        <div className="absolute top-2 right-2">
+        <div className="absolute top-2 right-2 flex items-center gap-1.5">
           {item.status === 'processing' && (
             <div className="bg-white/90 backdrop-blur text-indigo-600 px-2 py-1 rounded-full text-xs font-medium flex items-center shadow-sm">
               <Loader2 className="w-3 h-3 mr-1 animate-spin" />
               Scanning
             </div>
           )}
+          {item.status === 'completed' && onRerunStage && (
+            <>
+              <button
+                onClick={() => onRerunStage('analysis')}
+                disabled={busy}
+                className="bg-white/90 hover:bg-white text-slate-600 p-1.5 rounded-full shadow-sm border border-slate-100 cursor-pointer disabled:opacity-50 disabled:cursor-not-allowed"
+                title="Re-run analysis only (keeps the background)"
+              >
+                <ScanText className="w-3 h-3" />
+              </button>
+              <button
+                onClick={() => onRerunStage('cleaning')}
+                disabled={busy}
+                className="bg-white/90 hover:bg-white text-slate-600 p-1.5 rounded-full shadow-sm border border-slate-100 cursor-pointer disabled:opacity-50 disabled:cursor-not-allowed"
+                title="Re-run background cleaning only (keeps the text boxes)"
+              >
+                <Eraser className="w-3 h-3" />
+              </button>
+            </>
+          )}
+          {item.status === 'completed' && onForceRerun && (
+            <button
+              onClick={onForceRerun}
+              disabled={busy}
+              className="bg-white/90 hover:bg-white text-slate-600 p-1.5 rounded-full shadow-sm border border-slate-100 cursor-pointer disabled:opacity-50 disabled:cursor-not-allowed"
+              title="Force re-run: analyse and clean again without using cached results"
+            >
+              <RefreshCw className="w-3 h-3" />
+            </button>
+          )}
+          {item.status === 'completed' && onEdit && (
+            <button
+              onClick={onEdit}
+              className="bg-white/90 hover:bg-white text-slate-600 px-2 py-1 rounded-full text-xs font-medium flex items-center shadow-sm border border-slate-100 cursor-pointer"
+              title="Edit detected text boxes"
+            >
+              <Pencil className="w-3 h-3 mr-1"/>
+              Edit
+            </button>
+          )}
+          {item.status === 'completed' && onCompare && (
+            <button
+              onClick={onCompare}
+              className="bg-white/90 hover:bg-white text-slate-600 px-2 py-1 rounded-full text-xs font-medium flex items-center shadow-sm border border-slate-100 cursor-pointer"
+              title="Compare the original with the cleaned background and the rebuilt slide"
+            >
+              <Columns2 className="w-3 h-3 mr-1"/>
+              Compare
+            </button>
+          )}
           {item.status === 'completed' && (
              <button 
              onClick={() => setShowOverlay(!showOverlay)}
@@ -79,20 +204,76 @@ export const ImagePreviewCard: React.FC<ImagePreviewCardProps> = ({ item }) => {
               Failed
             </div>
           )}
+          {item.status === 'error' && onRetry && (
+            <button
+              onClick={onRetry}
+              disabled={busy}
+              className="bg-white/90 hover:bg-white text-slate-600 px-2 py-1 rounded-full text-xs font-medium flex items-center shadow-sm border border-slate-100 cursor-pointer disabled:opacity-50 disabled:cursor-not-allowed"
+              title="Process this slide again"
+            >
+              <RotateCcw className="w-3 h-3 mr-1"/>
+              Retry
+            </button>
+          )}
         </div>
       </div>
       
       <div className="p-3 border-t border-slate-100 flex items-center justify-between">
-         <span className="text-xs text-slate-500 truncate max-w-[70%]">
-           {item.file.name}
+         <span className="text-xs text-slate-500 truncate max-w-[70%]" title={item.file.name}>
+           {item.pdfSource
+             ? `${item.pdfSource.fileName} · p. ${item.pdfSource.page}/${item.pdfSource.pageCount}`
+             : item.file.name}
          </span>
          {item.status === 'completed' && (
            <span className="text-xs text-green-600 flex items-center font-medium">
              <CheckCircle2 className="w-3 h-3 mr-1" />
-             {item.elements?.length} blocks
+             {item.elements?.length} blocks{item.textLayer && ' (PDF text)'}
+             {item.tables && item.tables.length > 0 && `, ${item.tables.length} table${item.tables.length !== 1 ? 's' : ''}`}
+             {item.shapes && item.shapes.length > 0 && `, ${item.shapes.length} shape${item.shapes.length !== 1 ? 's' : ''}`}
+             {item.charts && item.charts.length > 0 && `, ${item.charts.length} chart${item.charts.length !== 1 ? 's' : ''}`}
+             {needsReview(item) && (
+               <span
+                 className="ml-1.5 text-amber-600 flex items-center"
+                 title={`The rebuilt slide differs from the original (similarity ${item.fidelity!.toFixed(2)}); check it in Compare`}
+               >
+                 <Flag className="w-3 h-3 mr-0.5" />
+                 review
+               </span>
+             )}
+             {ghostText && ghostText.outcome !== 'clean' && (
+               <span
+                 className={clsx("ml-1.5 flex items-center", ghostText.outcome === 'residual' ? "text-amber-600" : "text-slate-400")}
+                 title={`Leftover text found in ${ghostText.flagged} box${ghostText.flagged !== 1 ? 'es' : ''}; ` +
+                   `${ghostText.passes} re-cleaning pass${ghostText.passes !== 1 ? 'es' : ''}${ghostText.method === 'ai' ? ' with AI' : ' with local inpainting'}, ` +
+                   `${ghostText.remaining} still showing text`}
+               >
+                 <Eraser className="w-3 h-3 mr-0.5" />
+                 {ghostText.outcome === 'residual' ? 'ghost text' : 'touched up'}
+               </span>
+             )}
+             {cacheHit && (
+               <span
+                 className="ml-1.5 text-slate-400 flex items-center"
+                 title={`Layout: ${item.cache?.analysis ? CACHE_LABELS[item.cache.analysis] : 'not cached'} · Background: ${item.cache?.cleaning ? CACHE_LABELS[item.cache.cleaning] : 'not cached'}`}
+               >
+                 <Database className="w-3 h-3 mr-0.5" />
+                 cached
+               </span>
+             )}
            </span>
          )}
       </div>
+      {item.warnings && item.warnings.length > 0 && (
+        <details className="px-3 pb-3 text-xs text-amber-700">
+          <summary className="cursor-pointer flex items-center font-medium select-none">
+            <AlertTriangle className="w-3 h-3 mr-1" />
+            {item.warnings.length} layout warning{item.warnings.length !== 1 ? 's' : ''}
+          </summary>
+          <ul className="mt-1 max-h-32 overflow-y-auto list-disc pl-5 space-y-0.5 text-amber-800">
+            {item.warnings.map((warning, i) => <li key={i}>{warning}</li>)}
+          </ul>
+        </details>
+      )}
     </div>
   );
 };
\ No newline at end of file
@@ -0,0 +1,115 @@
+import React, { useState } from 'react';
+import { PriceTable, ProcessedImage } from '../types';
+import { DEFAULT_PRICES, formatCost, formatTokens, getModelCost, getUsageTotals, sumUsage, usageToCsv } from '../services/usageService';
+import { downloadFile } from '../services/exporters';
+import { Coins, Download, RotateCcw } from 'lucide-react';
+
+interface UsageSummaryProps {
+  items: ProcessedImage[];
+  prices: PriceTable;
+  onPricesChange: (prices: PriceTable) => void;
+}
+
+const inputClassName = "w-20 bg-slate-50 border border-slate-200 rounded px-2 py-1 text-xs text-slate-700 outline-none focus:border-indigo-400";
+
+export const UsageSummary: React.FC<UsageSummaryProps> = ({ items, prices, onPricesChange }) => {
+  const [open, setOpen] = useState(false);
+  const usage = sumUsage(items.map(i => i.usage));
+  const totals = getUsageTotals(usage, prices);
+  // Priced models first, then any model that was used without a price
+  const models = [...new Set([...Object.keys(prices), ...Object.keys(usage.models)])];
+
+  const updatePrice = (model: string, field: 'inputPerMillion' | 'outputPerMillion', value: number) => {
+    const price = prices[model] || { inputPerMillion: 0, outputPerMillion: 0 };
+    onPricesChange({ ...prices, [model]: { ...price, [field]: Number.isFinite(value) ? Math.max(0, value) : 0 } });
+  };
+
+  const handleExportCsv = () => {
+    const data = new Blob([usageToCsv(items, prices)], { type: 'text/csv' });
+    downloadFile({ fileName: `Img2PPT-Usage-${Date.now()}.csv`, data });
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        className="flex items-center text-xs text-slate-500 hover:text-indigo-600"
+        title={`${totals.requests} requests, ${formatTokens(totals.inputTokens)} input and ${formatTokens(totals.outputTokens)} output tokens, ${(totals.latencyMs / 1000).toFixed(1)}s waiting on the model`}
+      >
+        <Coins className="w-3.5 h-3.5 mr-1" />
+        {formatTokens(totals.inputTokens + totals.outputTokens)} tokens
+        {totals.imageGenerations > 0 && ` · ${totals.imageGenerations} image${totals.imageGenerations !== 1 ? 's' : ''}`}
+        {totals.retries > 0 && ` · ${totals.retries} retr${totals.retries !== 1 ? 'ies' : 'y'}`}
+        {` · ≈${formatCost(totals.cost)}`}
+      </button>
+
+      {open && (
+        <div className="absolute top-full mt-2 left-0 z-20 bg-white border border-slate-200 rounded-lg shadow-lg p-3 w-max">
+          <div className="flex items-center justify-between mb-2">
+            <span className="text-xs font-semibold text-slate-700">Prices (USD per million tokens)</span>
+            <button
+              onClick={() => onPricesChange(DEFAULT_PRICES)}
+              className="flex items-center text-xs text-slate-500 hover:text-slate-700"
+              title="Restore the list prices"
+            >
+              <RotateCcw className="w-3 h-3 mr-1" />
+              Reset
+            </button>
+          </div>
+          <table className="text-xs text-slate-600">
+            <thead>
+              <tr>
+                <th className="text-left font-medium pr-2 pb-1">Model</th>
+                <th className="text-left font-medium pr-2 pb-1">Input</th>
+                <th className="text-left font-medium pr-2 pb-1">Output</th>
+                <th className="text-right font-medium pb-1">Spent</th>
+              </tr>
+            </thead>
+            <tbody>
+              {models.map(model => (
+                <tr key={model}>
+                  <td className={`pr-2 py-0.5 ${prices[model] ? '' : 'text-amber-700'}`}>{model}</td>
+                  <td className="pr-2 py-0.5">
+                    <input
+                      type="number"
+                      min={0}
+                      step={0.01}
+                      value={prices[model]?.inputPerMillion ?? 0}
+                      onChange={(e) => updatePrice(model, 'inputPerMillion', e.target.valueAsNumber)}
+                      className={inputClassName}
+                    />
+                  </td>
+                  <td className="pr-2 py-0.5">
+                    <input
+                      type="number"
+                      min={0}
+                      step={0.01}
+                      value={prices[model]?.outputPerMillion ?? 0}
+                      onChange={(e) => updatePrice(model, 'outputPerMillion', e.target.valueAsNumber)}
+                      className={inputClassName}
+                    />
+                  </td>
+                  <td className="py-0.5 text-right">
+                    {usage.models[model] && prices[model] ? formatCost(getModelCost(usage.models[model], prices[model])) : '—'}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <p className="mt-2 text-[11px] text-slate-400 max-w-xs">
+            Generated images are billed as output tokens. Cached answers cost nothing and are not counted.
+          </p>
+          <button
+            onClick={handleExportCsv}
+            disabled={items.length === 0}
+            className="mt-2 flex items-center text-xs font-medium text-indigo-600 hover:text-indigo-800 disabled:opacity-50"
+            title="One row per slide plus a total, for charging the conversion back to a project"
+          >
+            <Download className="w-3.5 h-3.5 mr-1" />
+            Export usage CSV
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,53 @@
+import { DetectedTextElement } from "../types";
+
+/**
+ * Canned layouts for the mock vision provider, keyed by file name.
+ * Files without an entry get DEFAULT_MOCK_LAYOUT.
+ */
+export const DEFAULT_MOCK_LAYOUT: DetectedTextElement[] = [
+  {
+    text: "Quarterly Review",
+    box_2d: [80, 100, 200, 900],
+    textColor: "#1E293B",
+    hasContainer: false,
+    fontSize: 90,
+    fontFamily: "sans-serif",
+    fontWeight: "bold",
+    fontStyle: "normal",
+    isTitle: true,
+    alignment: "center",
+  },
+  {
+    text: "Revenue up 40%\nChurn down 12%\nThree new markets",
+    box_2d: [300, 120, 650, 600],
+    textColor: "#334155",
+    hasContainer: false,
+    fontSize: 45,
+    fontFamily: "sans-serif",
+    fontWeight: "normal",
+    fontStyle: "normal",
+    isTitle: false,
+    alignment: "left",
+    paragraphs: [
+      { bullet: "bullet", indentLevel: 0 },
+      { bullet: "bullet", indentLevel: 0 },
+      { bullet: "bullet", indentLevel: 0 },
+    ],
+  },
+  {
+    text: "Confidential",
+    box_2d: [820, 700, 900, 920],
+    textColor: "#FFFFFF",
+    hasContainer: true,
+    containerColor: "#4F46E5",
+    containerOpacity: 1,
+    fontSize: 30,
+    fontFamily: "sans-serif",
+    fontWeight: "bold",
+    fontStyle: "normal",
+    isTitle: false,
+    alignment: "center",
+  },
+];
+
+export const MOCK_LAYOUTS: Record<string, DetectedTextElement[]> = {};
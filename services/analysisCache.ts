@@ -0,0 +1,110 @@
+import { CacheStatus } from "../types";
+
+/**
+ * Where model results are kept between runs: IndexedDB in the browser, a
+ * folder on disk in the CLI. Entries are content-addressed, so they never go
+ * stale; a store may still drop old entries to bound its size.
+ */
+export interface CacheStore {
+  get: <T>(key: string) => Promise<T | undefined>;
+  set: (key: string, value: unknown) => Promise<void>;
+}
+
+const DB_NAME = 'img2ppt-cache';
+const DB_VERSION = 1;
+const ENTRIES_STORE = 'entries';
+const MAX_ENTRIES = 400; // Backgrounds are megabytes each; the oldest entries go first
+
+interface CacheRecord {
+  key: string;
+  value: unknown;
+  savedAt: number;
+}
+
+// Hex SHA-256 of the file bytes, or undefined where Web Crypto is unavailable (non-secure origins)
+export const hashBlob = async (blob: Blob): Promise<string | undefined> => {
+  if (!globalThis.crypto?.subtle) return undefined;
+  const digest = await crypto.subtle.digest('SHA-256', await blob.arrayBuffer());
+  return [...new Uint8Array(digest)].map(b => b.toString(16).padStart(2, '0')).join('');
+};
+
+// Every input that changes the model's answer is part of the key
+export const layoutCacheKey = (hash: string, model: string, options: { detectShapes: boolean; detectCharts: boolean; detectFontNames: boolean }) =>
+  `layout:${hash}:${model}:${Number(options.detectShapes)}${Number(options.detectCharts)}${Number(options.detectFontNames)}`;
+
+export const backgroundCacheKey = (hash: string, model: string, aspectRatio: string, options: { removeShapes: boolean; removeCharts: boolean }) =>
+  `background:${hash}:${model}:${aspectRatio}:${Number(options.removeShapes)}${Number(options.removeCharts)}`;
+
+/**
+ * Returns the cached value for a key, or computes, stores and returns it.
+ * `refresh` skips the lookup but still stores the new value. Cache failures
+ * never fail the call; the value is then simply computed.
+ */
+export const cached = async <T,>(
+  store: CacheStore | undefined,
+  key: string | undefined,
+  compute: () => Promise<T>,
+  refresh = false
+): Promise<{ value: T; status?: CacheStatus }> => {
+  if (!store || !key) return { value: await compute() };
+  if (!refresh) {
+    const hit = await store.get<T>(key).catch(err => {
+      console.warn("Cache lookup failed", err);
+      return undefined;
+    });
+    if (hit !== undefined) return { value: hit, status: 'hit' };
+  }
+  const value = await compute();
+  await store.set(key, value).catch(err => console.warn("Could not write to the cache", err));
+  return { value, status: 'miss' };
+};
+
+const promisify = <T,>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const openDb = (): Promise<IDBDatabase> => {
+  const request = indexedDB.open(DB_NAME, DB_VERSION);
+  request.onupgradeneeded = () => {
+    request.result.createObjectStore(ENTRIES_STORE, { keyPath: 'key' }).createIndex('savedAt', 'savedAt');
+  };
+  return promisify(request);
+};
+
+const transactionDone = (tx: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+export const createIndexedDbCacheStore = (): CacheStore => ({
+  get: async <T,>(key: string) => {
+    const db = await openDb();
+    try {
+      const record = await promisify(db.transaction(ENTRIES_STORE).objectStore(ENTRIES_STORE).get(key)) as CacheRecord | undefined;
+      return record?.value as T | undefined;
+    } finally {
+      db.close();
+    }
+  },
+  set: async (key, value) => {
+    const db = await openDb();
+    try {
+      const tx = db.transaction(ENTRIES_STORE, 'readwrite');
+      const store = tx.objectStore(ENTRIES_STORE);
+      const record: CacheRecord = { key, value, savedAt: Date.now() };
+      store.put(record);
+      const excess = (await promisify(store.count())) - MAX_ENTRIES;
+      if (excess > 0) {
+        const oldest = await promisify(store.index('savedAt').getAllKeys(null, excess));
+        oldest.forEach(k => store.delete(k));
+      }
+      await transactionDone(tx);
+    } finally {
+      db.close();
+    }
+  },
+});
@@ -0,0 +1,158 @@
+import { BackgroundFit } from "../types";
+import { boxToPixels, loadImage, loadImageData } from "./imageUtils";
+
+const DIFF_SAMPLE_SIZE = 256; // Longest edge of the thumbnails compared for alignment
+// Mean luminance difference (0-255) above which the cleaned image is considered misaligned
+export const MAX_ALIGNMENT_DIFF = 40;
+
+export interface AlignmentResult {
+  dataUrl: string;
+  fit: BackgroundFit;
+  meanDiff: number;
+}
+
+type Box2d = [number, number, number, number];
+
+const FITS: BackgroundFit[] = ['stretch', 'cover', 'contain'];
+
+const createCanvas = (width: number, height: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error("Canvas 2D context unavailable");
+  return { canvas, ctx };
+};
+
+type Rect = { x0: number; y0: number; x1: number; y1: number };
+
+/**
+ * Draws the generated image onto a canvas of the source size using one fit strategy
+ * and returns the area it actually covers. For 'contain' the uncovered margins are
+ * filled by stretching the generated image's outermost rows or columns, so padding
+ * adds neither bars nor the source's text.
+ */
+const drawFit = (
+  ctx: CanvasRenderingContext2D,
+  generated: HTMLImageElement,
+  width: number,
+  height: number,
+  fit: BackgroundFit
+): Rect => {
+  const gw = generated.naturalWidth;
+  const gh = generated.naturalHeight;
+
+  if (fit === 'stretch') {
+    ctx.drawImage(generated, 0, 0, width, height);
+    return { x0: 0, y0: 0, x1: width, y1: height };
+  }
+
+  const scale = fit === 'cover'
+    ? Math.max(width / gw, height / gh)
+    : Math.min(width / gw, height / gh);
+  const dw = gw * scale;
+  const dh = gh * scale;
+  const dx = (width - dw) / 2;
+  const dy = (height - dh) / 2;
+
+  if (fit === 'contain') {
+    if (dx > 0) {
+      ctx.drawImage(generated, 0, 0, 1, gh, 0, dy, dx, dh);
+      ctx.drawImage(generated, gw - 1, 0, 1, gh, dx + dw, dy, dx, dh);
+    }
+    if (dy > 0) {
+      ctx.drawImage(generated, 0, 0, gw, 1, dx, 0, dw, dy);
+      ctx.drawImage(generated, 0, gh - 1, gw, 1, dx, dy + dh, dw, dy);
+    }
+  }
+  ctx.drawImage(generated, dx, dy, dw, dh);
+  return { x0: Math.max(0, dx), y0: Math.max(0, dy), x1: Math.min(width, dx + dw), y1: Math.min(height, dy + dh) };
+};
+
+const luminance = (data: Uint8ClampedArray, i: number) =>
+  0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+
+/**
+ * Mean luminance difference between two equally sized thumbnails over the area
+ * the candidate covers, ignoring the text regions (which are expected to differ
+ * after cleaning). Padded margins are left out so every fit is judged only on
+ * the pixels it actually drew from the generated image.
+ */
+const meanDiffOutsideText = (a: ImageData, b: ImageData, regions: Box2d[], covered: Rect): number => {
+  const { width, height } = a;
+  const excluded = new Uint8Array(width * height);
+  for (const box of regions) {
+    const r = boxToPixels(box, width, height);
+    for (let y = Math.max(0, Math.floor(r.y0)); y < Math.min(height, Math.ceil(r.y1)); y++) {
+      for (let x = Math.max(0, Math.floor(r.x0)); x < Math.min(width, Math.ceil(r.x1)); x++) {
+        excluded[y * width + x] = 1;
+      }
+    }
+  }
+
+  let sum = 0;
+  let count = 0;
+  for (let y = Math.ceil(covered.y0); y < Math.floor(covered.y1); y++) {
+    for (let x = Math.ceil(covered.x0); x < Math.floor(covered.x1); x++) {
+      const p = y * width + x;
+      if (excluded[p]) continue;
+      sum += Math.abs(luminance(a.data, p * 4) - luminance(b.data, p * 4));
+      count++;
+    }
+  }
+  return count > 0 ? sum / count : 0;
+};
+
+/**
+ * Brings a generated background back to the exact source resolution.
+ * The image model only produces a handful of aspect ratios and may stretch,
+ * crop or pad the content, so each fit is tried on thumbnails and the one whose
+ * non-text pixels best match the original wins. box_2d coordinates stay valid
+ * because the result is pixel-aligned with the source.
+ */
+export const alignBackgroundToSource = async (
+  cleanDataUrl: string,
+  sourceFile: File,
+  regions: Box2d[]
+): Promise<AlignmentResult> => {
+  const sourceData = await loadImageData(sourceFile);
+  const generated = await loadImage(cleanDataUrl);
+  const { width, height } = sourceData;
+
+  const source = createCanvas(width, height);
+  source.ctx.putImageData(sourceData, 0, 0);
+
+  const thumbScale = Math.min(1, DIFF_SAMPLE_SIZE / Math.max(width, height));
+  const tw = Math.max(1, Math.round(width * thumbScale));
+  const th = Math.max(1, Math.round(height * thumbScale));
+
+  const reference = createCanvas(tw, th);
+  reference.ctx.drawImage(source.canvas, 0, 0, tw, th);
+  const referenceData = reference.ctx.getImageData(0, 0, tw, th);
+
+  let best: { fit: BackgroundFit; meanDiff: number } = { fit: 'stretch', meanDiff: Infinity };
+  const scores: Record<string, number> = {};
+
+  for (const fit of FITS) {
+    const candidate = createCanvas(tw, th);
+    const covered = drawFit(candidate.ctx, generated, tw, th, fit);
+    const meanDiff = meanDiffOutsideText(referenceData, candidate.ctx.getImageData(0, 0, tw, th), regions, covered);
+    scores[fit] = Math.round(meanDiff * 100) / 100;
+    if (meanDiff < best.meanDiff) best = { fit, meanDiff };
+  }
+
+  console.info(
+    `Background alignment for ${sourceFile.name}: ${generated.naturalWidth}x${generated.naturalHeight} -> ${width}x${height}, ` +
+    `fit=${best.fit}, meanDiff=${best.meanDiff.toFixed(2)}`,
+    scores
+  );
+
+  const output = createCanvas(width, height);
+  drawFit(output.ctx, generated, width, height, best.fit);
+
+  return {
+    dataUrl: output.canvas.toDataURL('image/png'),
+    fit: best.fit,
+    meanDiff: Math.round(best.meanDiff * 100) / 100,
+  };
+};
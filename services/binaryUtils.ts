@@ -0,0 +1,84 @@
+// Byte and image-header helpers that need no DOM, so the same services run in the browser and in Node
+
+const IMAGE_TYPES: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  webp: 'image/webp',
+  gif: 'image/gif',
+};
+
+// Image MIME type for a file name, or undefined when the extension is not a supported image
+export const imageTypeFromName = (name: string): string | undefined =>
+  IMAGE_TYPES[name.split('.').pop()?.toLowerCase() || ''];
+
+export const bytesToBase64 = (bytes: Uint8Array): string => {
+  // Chunked so large images do not overflow the argument limit of fromCharCode
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+export const blobToBase64 = async (blob: Blob): Promise<string> =>
+  bytesToBase64(new Uint8Array(await blob.arrayBuffer()));
+
+export const blobToDataUrl = async (blob: Blob): Promise<string> =>
+  `data:${blob.type || 'application/octet-stream'};base64,${await blobToBase64(blob)}`;
+
+const readUint16 = (bytes: Uint8Array, offset: number, littleEndian = false) =>
+  new DataView(bytes.buffer, bytes.byteOffset).getUint16(offset, littleEndian);
+
+const readUint32 = (bytes: Uint8Array, offset: number) =>
+  new DataView(bytes.buffer, bytes.byteOffset).getUint32(offset);
+
+const readUint24LE = (bytes: Uint8Array, offset: number) =>
+  bytes[offset] | (bytes[offset + 1] << 8) | (bytes[offset + 2] << 16);
+
+const ascii = (bytes: Uint8Array, offset: number, length: number) =>
+  String.fromCharCode(...bytes.subarray(offset, offset + length));
+
+// Baseline, extended and progressive JPEG frame headers carry the size; DHT, JPG and DAC share the range
+const isJpegFrameMarker = (marker: number) =>
+  marker >= 0xC0 && marker <= 0xCF && marker !== 0xC4 && marker !== 0xC8 && marker !== 0xCC;
+
+/**
+ * Pixel size of a PNG, JPEG, GIF or WebP from its header, without decoding it.
+ * Returns undefined for other formats or truncated data.
+ */
+export const readImageSize = (bytes: Uint8Array): { width: number; height: number } | undefined => {
+  try {
+    if (bytes.length >= 24 && ascii(bytes, 1, 3) === 'PNG') {
+      return { width: readUint32(bytes, 16), height: readUint32(bytes, 20) };
+    }
+    if (bytes.length >= 10 && ascii(bytes, 0, 3) === 'GIF') {
+      return { width: readUint16(bytes, 6, true), height: readUint16(bytes, 8, true) };
+    }
+    if (bytes.length >= 30 && ascii(bytes, 0, 4) === 'RIFF' && ascii(bytes, 8, 4) === 'WEBP') {
+      const chunk = ascii(bytes, 12, 4);
+      if (chunk === 'VP8 ') return { width: readUint16(bytes, 26, true) & 0x3FFF, height: readUint16(bytes, 28, true) & 0x3FFF };
+      if (chunk === 'VP8L') {
+        const bits = new DataView(bytes.buffer, bytes.byteOffset).getUint32(21, true);
+        return { width: (bits & 0x3FFF) + 1, height: ((bits >> 14) & 0x3FFF) + 1 };
+      }
+      if (chunk === 'VP8X') return { width: readUint24LE(bytes, 24) + 1, height: readUint24LE(bytes, 27) + 1 };
+      return undefined;
+    }
+    if (bytes.length >= 4 && bytes[0] === 0xFF && bytes[1] === 0xD8) {
+      // Walk the segments up to the first frame header
+      let offset = 2;
+      while (offset + 9 < bytes.length) {
+        if (bytes[offset] !== 0xFF) return undefined;
+        const marker = bytes[offset + 1];
+        if (isJpegFrameMarker(marker)) {
+          return { width: readUint16(bytes, offset + 7), height: readUint16(bytes, offset + 5) };
+        }
+        offset += 2 + readUint16(bytes, offset + 2);
+      }
+    }
+  } catch {
+    // Truncated header
+  }
+  return undefined;
+};
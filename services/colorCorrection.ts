@@ -0,0 +1,182 @@
+import { DetectedTextElement, SlideLayout } from "../types";
+import { boxToPixels, RGB, rgbToHex } from "./imageUtils";
+
+type Lab = [number, number, number];
+
+// CIE76 distances above this are clearly visible side by side; smaller disagreements keep the model's hex
+export const COLOR_DELTA_E_THRESHOLD = 12;
+
+const CLUSTER_COUNT = 3; // Background, ink and the anti-aliased blend between them
+const MAX_SAMPLES = 4000;
+const KMEANS_ITERATIONS = 10;
+const MIN_INK_SHARE = 0.02; // Ignore clusters too small to be glyphs (noise, stray edges)
+const MIN_INK_CONTRAST = 10; // ΔE; below this the box holds no distinguishable text
+const MIN_SOLID_OPACITY = 0.9; // See-through containers show a blend, not their own color
+
+export const hexToRgb = (hex: string): RGB | undefined => {
+  const match = hex.trim().match(/^#?([0-9a-f]{6})$/i);
+  if (!match) return undefined;
+  const value = parseInt(match[1], 16);
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255];
+};
+
+// sRGB (D65) to CIELAB
+export const rgbToLab = ([r, g, b]: RGB): Lab => {
+  const linear = (c: number) => {
+    const v = c / 255;
+    return v <= 0.04045 ? v / 12.92 : ((v + 0.055) / 1.055) ** 2.4;
+  };
+  const [lr, lg, lb] = [linear(r), linear(g), linear(b)];
+  const x = (lr * 0.4124 + lg * 0.3576 + lb * 0.1805) / 0.95047;
+  const y = lr * 0.2126 + lg * 0.7152 + lb * 0.0722;
+  const z = (lr * 0.0193 + lg * 0.1192 + lb * 0.9505) / 1.08883;
+  const f = (t: number) => (t > 0.008856 ? Math.cbrt(t) : 7.787 * t + 16 / 116);
+  const [fx, fy, fz] = [f(x), f(y), f(z)];
+  return [116 * fy - 16, 500 * (fx - fy), 200 * (fy - fz)];
+};
+
+export const deltaE = (a: Lab, b: Lab): number =>
+  Math.sqrt((a[0] - b[0]) ** 2 + (a[1] - b[1]) ** 2 + (a[2] - b[2]) ** 2);
+
+interface Cluster {
+  rgb: RGB;
+  lab: Lab;
+  share: number;
+}
+
+// Evenly spread pixel samples from a rectangle, capped at MAX_SAMPLES
+const samplePixels = (data: ImageData, rect: { x0: number; y0: number; x1: number; y1: number }): RGB[] => {
+  const x0 = Math.max(0, Math.floor(rect.x0));
+  const y0 = Math.max(0, Math.floor(rect.y0));
+  const x1 = Math.min(data.width - 1, Math.ceil(rect.x1));
+  const y1 = Math.min(data.height - 1, Math.ceil(rect.y1));
+  if (x1 <= x0 || y1 <= y0) return [];
+
+  const step = Math.max(1, Math.ceil(Math.sqrt(((x1 - x0 + 1) * (y1 - y0 + 1)) / MAX_SAMPLES)));
+  const pixels: RGB[] = [];
+  for (let y = y0; y <= y1; y += step) {
+    for (let x = x0; x <= x1; x += step) {
+      const i = (y * data.width + x) * 4;
+      pixels.push([data.data[i], data.data[i + 1], data.data[i + 2]]);
+    }
+  }
+  return pixels;
+};
+
+/**
+ * k-means in Lab space. Seeds are picked farthest-point first, starting
+ * from the first sample, so the result is deterministic for a given box.
+ */
+const kMeans = (pixels: RGB[], k: number): Cluster[] => {
+  const labs = pixels.map(rgbToLab);
+  const centers: Lab[] = [labs[0]];
+  while (centers.length < k) {
+    let farthest = labs[0];
+    let best = -1;
+    for (const lab of labs) {
+      const d = Math.min(...centers.map(c => deltaE(lab, c)));
+      if (d > best) {
+        best = d;
+        farthest = lab;
+      }
+    }
+    if (best <= 0) break; // Fewer distinct colors than clusters
+    centers.push(farthest);
+  }
+
+  const assignment = new Array<number>(labs.length).fill(0);
+  for (let iteration = 0; iteration < KMEANS_ITERATIONS; iteration++) {
+    let moved = false;
+    labs.forEach((lab, i) => {
+      let nearest = 0;
+      centers.forEach((c, j) => {
+        if (deltaE(lab, c) < deltaE(lab, centers[nearest])) nearest = j;
+      });
+      if (nearest !== assignment[i]) moved = true;
+      assignment[i] = nearest;
+    });
+
+    centers.forEach((_, j) => {
+      const members = labs.filter((_, i) => assignment[i] === j);
+      if (members.length === 0) return;
+      centers[j] = [0, 1, 2].map(c => members.reduce((sum, m) => sum + m[c], 0) / members.length) as Lab;
+    });
+    if (!moved && iteration > 0) break;
+  }
+
+  // Report the mean sRGB of each cluster so the hex is an actual pixel average, not a Lab round trip
+  return centers.map((_, j) => {
+    const members = pixels.filter((_, i) => assignment[i] === j);
+    const rgb = [0, 1, 2].map(c => members.reduce((sum, m) => sum + m[c], 0) / Math.max(1, members.length)) as RGB;
+    return { rgb, lab: rgbToLab(rgb), share: members.length / pixels.length };
+  }).filter(c => c.share > 0);
+};
+
+export interface SampledColors {
+  background: RGB;
+  foreground?: RGB; // Undefined when no ink stands out from the background
+}
+
+/**
+ * Dominant background and text colors inside a pixel rectangle. The largest
+ * cluster is the background; the ink is the cluster that contrasts most with
+ * it, which skips the anti-aliased blend between the two.
+ */
+export const sampleDominantColors = (
+  data: ImageData,
+  rect: { x0: number; y0: number; x1: number; y1: number }
+): SampledColors | undefined => {
+  const pixels = samplePixels(data, rect);
+  if (pixels.length < CLUSTER_COUNT) return undefined;
+
+  const clusters = kMeans(pixels, CLUSTER_COUNT).sort((a, b) => b.share - a.share);
+  const [background, ...rest] = clusters;
+  const ink = rest
+    .filter(c => c.share >= MIN_INK_SHARE)
+    .sort((a, b) => deltaE(b.lab, background.lab) - deltaE(a.lab, background.lab))[0];
+
+  return {
+    background: background.rgb,
+    foreground: ink && deltaE(ink.lab, background.lab) >= MIN_INK_CONTRAST ? ink.rgb : undefined,
+  };
+};
+
+// The sampled hex when it disagrees visibly with the model's, otherwise undefined
+const correction = (modelHex: string | undefined, sampled: RGB): string | undefined => {
+  const model = modelHex ? hexToRgb(modelHex) : undefined;
+  if (model && deltaE(rgbToLab(model), rgbToLab(sampled)) <= COLOR_DELTA_E_THRESHOLD) return undefined;
+  return rgbToHex(sampled);
+};
+
+// Runs in several colors mean there is no single ink color to sample
+const hasMixedRunColors = (el: DetectedTextElement) =>
+  new Set((el.runs || []).map(r => (r.color || el.textColor).toUpperCase())).size > 1;
+
+/**
+ * Replaces textColor and containerColor with colors sampled from the source
+ * pixels where the model's guess is off by more than COLOR_DELTA_E_THRESHOLD.
+ * Returns the corrected layout and how many colors were replaced.
+ */
+export const correctLayoutColors = (data: ImageData, layout: SlideLayout): { layout: SlideLayout; corrected: number } => {
+  let corrected = 0;
+
+  const elements = layout.elements.map(el => {
+    const sampled = sampleDominantColors(data, boxToPixels(el.box_2d, data.width, data.height));
+    if (!sampled) return el;
+
+    const patch: Partial<DetectedTextElement> = {};
+    if (sampled.foreground && !hasMixedRunColors(el)) {
+      const textColor = correction(el.textColor, sampled.foreground);
+      if (textColor) patch.textColor = textColor;
+    }
+    if (el.hasContainer && (el.containerOpacity ?? 1) >= MIN_SOLID_OPACITY) {
+      const containerColor = correction(el.containerColor, sampled.background);
+      if (containerColor) patch.containerColor = containerColor;
+    }
+
+    corrected += Object.keys(patch).length;
+    return Object.keys(patch).length > 0 ? { ...el, ...patch } : el;
+  });
+
+  return { layout: { ...layout, elements }, corrected };
+};
@@ -0,0 +1,31 @@
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import { createHash } from "node:crypto";
+import path from "node:path";
+import type { CacheStore } from "./analysisCache";
+
+/**
+ * Cache for the CLI, which has no IndexedDB: one JSON file per entry, named by
+ * the hash of its key. Node only; the browser build never imports this.
+ */
+export const createDiskCacheStore = (dir: string): CacheStore => {
+  const fileFor = (key: string) => path.join(dir, `${createHash('sha256').update(key).digest('hex')}.json`);
+
+  return {
+    get: async <T,>(key: string) => {
+      try {
+        return JSON.parse(await readFile(fileFor(key), 'utf8')).value as T;
+      } catch (err) {
+        if ((err as NodeJS.ErrnoException).code === 'ENOENT') return undefined;
+        throw err;
+      }
+    },
+    set: async (key, value) => {
+      await mkdir(dir, { recursive: true });
+      // Written aside and renamed so parallel runs never read half a file
+      const file = fileFor(key);
+      const temp = `${file}.${process.pid}.tmp`;
+      await writeFile(temp, JSON.stringify({ key, value, savedAt: Date.now() }));
+      await rename(temp, file);
+    },
+  };
+};
@@ -0,0 +1,89 @@
+import { ExportFormatId, ProcessedImage, PptExportOptions } from "../types";
+import { getExportableImages, pptxExporter } from "./pptService";
+import { odpExporter } from "./odpService";
+import { htmlExporter } from "./htmlService";
+import { buildFontReport, FontReportEntry } from "./fontService";
+
+export interface ExportFile {
+  fileName: string;
+  data: Blob;
+}
+
+/**
+ * Turns processed slides into one or more downloadable files.
+ * Exporters only receive completed slides with known dimensions and never
+ * write anything themselves, so the same output can be saved, zipped or uploaded.
+ */
+export interface Exporter {
+  id: ExportFormatId;
+  label: string;
+  extension: string;
+  description: string;
+  export: (images: ProcessedImage[], options: PptExportOptions, baseName: string) => Promise<ExportFile[]>;
+}
+
+export const JSON_LAYOUT_VERSION = 1;
+
+// Layout data only; image payloads are left out so the dump stays small and diffable
+const toLayoutRecord = ({ file, previewUrl, cleanBackgroundBase64, ...layout }: ProcessedImage) => ({
+  fileName: file.name,
+  hasCleanBackground: !!cleanBackgroundBase64,
+  ...layout,
+});
+
+export const jsonExporter: Exporter = {
+  id: 'json',
+  label: 'JSON layout',
+  extension: 'json',
+  description: 'Raw detected layout of every slide, for other pipelines',
+  export: async (images, _options, baseName) => {
+    const dump = {
+      version: JSON_LAYOUT_VERSION,
+      generatedAt: new Date().toISOString(),
+      slides: images.map(toLayoutRecord),
+    };
+    const data = new Blob([JSON.stringify(dump, null, 2)], { type: 'application/json' });
+    return [{ fileName: `${baseName}.json`, data }];
+  },
+};
+
+export const EXPORTERS: Record<ExportFormatId, Exporter> = {
+  pptx: pptxExporter,
+  odp: odpExporter,
+  html: htmlExporter,
+  json: jsonExporter,
+};
+
+export const getExporter = (id: ExportFormatId): Exporter => {
+  return EXPORTERS[id] || pptxExporter;
+};
+
+export const downloadFile = ({ fileName, data }: ExportFile) => {
+  const url = URL.createObjectURL(data);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Give the browser a moment to start the download before releasing the blob
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+/**
+ * Runs the chosen exporter over the finished slides and downloads the result.
+ * Every file of one export shares a timestamped base name. Returns which font
+ * faces the text was written with; JSON exports carry no fonts.
+ */
+export const exportSlides = async (
+  processedImages: ProcessedImage[],
+  format: ExportFormatId,
+  options: PptExportOptions
+): Promise<FontReportEntry[]> => {
+  const images = getExportableImages(processedImages);
+  if (images.length === 0) return [];
+
+  const files = await getExporter(format).export(images, options, `Converted-Presentation-${Date.now()}`);
+  files.forEach(downloadFile);
+  return format === 'json' ? [] : buildFontReport(images, options.fonts);
+};
@@ -0,0 +1,93 @@
+import { FontProfile, ProcessedImage } from "../types";
+import { loadImage } from "./imageUtils";
+import { renderReconstruction } from "./slideRenderer";
+
+// Below this the reconstruction differs visibly from the original (missed text, wrong sizes, ghost text)
+export const FIDELITY_REVIEW_THRESHOLD = 0.8;
+
+const SCORE_WIDTH = 480; // Both images are compared at this width; finer detail only adds noise
+const WINDOW = 8;
+const STEP = 4;
+// Stabilising constants for 8-bit luminance, from the SSIM paper
+const C1 = (0.01 * 255) ** 2;
+const C2 = (0.03 * 255) ** 2;
+
+const toLuminance = (data: ImageData): Float32Array => {
+  const gray = new Float32Array(data.width * data.height);
+  for (let i = 0; i < gray.length; i++) {
+    gray[i] = 0.299 * data.data[i * 4] + 0.587 * data.data[i * 4 + 1] + 0.114 * data.data[i * 4 + 2];
+  }
+  return gray;
+};
+
+/**
+ * Mean structural similarity of two equally sized images, over overlapping
+ * 8x8 windows of luminance. 1 means identical; unrelated images score near 0.
+ */
+export const computeSsim = (a: ImageData, b: ImageData): number => {
+  if (a.width !== b.width || a.height !== b.height) throw new Error("Images must be the same size");
+  const x = toLuminance(a);
+  const y = toLuminance(b);
+  const { width, height } = a;
+  const n = WINDOW * WINDOW;
+  let sum = 0;
+  let windows = 0;
+
+  for (let top = 0; top + WINDOW <= height; top += STEP) {
+    for (let left = 0; left + WINDOW <= width; left += STEP) {
+      let sx = 0, sy = 0, sxx = 0, syy = 0, sxy = 0;
+      for (let dy = 0; dy < WINDOW; dy++) {
+        const row = (top + dy) * width + left;
+        for (let dx = 0; dx < WINDOW; dx++) {
+          const vx = x[row + dx];
+          const vy = y[row + dx];
+          sx += vx;
+          sy += vy;
+          sxx += vx * vx;
+          syy += vy * vy;
+          sxy += vx * vy;
+        }
+      }
+      const mx = sx / n;
+      const my = sy / n;
+      const vx = sxx / n - mx * mx;
+      const vy = syy / n - my * my;
+      const cov = sxy / n - mx * my;
+      sum += ((2 * mx * my + C1) * (2 * cov + C2)) / ((mx * mx + my * my + C1) * (vx + vy + C2));
+      windows++;
+    }
+  }
+  return windows > 0 ? sum / windows : 1;
+};
+
+const drawToImageData = (source: CanvasImageSource, width: number, height: number): ImageData => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error("Canvas 2D context unavailable");
+  ctx.drawImage(source, 0, 0, width, height);
+  return ctx.getImageData(0, 0, width, height);
+};
+
+/**
+ * SSIM between the original image and a render of the rebuilt slide, both
+ * scaled down to SCORE_WIDTH. Rounded to 3 decimals for display and storage.
+ */
+export const scoreFidelity = async (item: ProcessedImage, fonts: FontProfile): Promise<number> => {
+  const width = Math.min(SCORE_WIDTH, item.width);
+  const height = Math.max(1, Math.round((width * item.height) / item.width));
+  const reconstruction = await renderReconstruction(item, fonts, width);
+
+  const url = URL.createObjectURL(item.file);
+  try {
+    const original = await loadImage(url);
+    const ssim = computeSsim(drawToImageData(original, width, height), drawToImageData(reconstruction, width, height));
+    return Math.round(ssim * 1000) / 1000;
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
+
+export const needsReview = (item: ProcessedImage) =>
+  item.fidelity !== undefined && item.fidelity < FIDELITY_REVIEW_THRESHOLD;
@@ -0,0 +1,151 @@
+import { DetectedTextElement, EastAsianScript, FontProfile, ProcessedImage } from "../types";
+import { getMeasureContext } from "./textFit";
+import { EAST_ASIAN_SCRIPTS, getElementScript, isEastAsianScript } from "./scriptUtils";
+
+const FONT_PROFILE_KEY = 'img2ppt.fontProfile';
+
+// Faces that ship with Windows and macOS; Segoe Print was Windows-only
+export const DEFAULT_FONT_PROFILE: FontProfile = {
+  families: {
+    'sans-serif': { regular: 'Arial' },
+    'serif': { regular: 'Times New Roman' },
+    'monospace': { regular: 'Courier New' },
+    'handwriting': { regular: 'Comic Sans MS' },
+  },
+  eastAsian: {
+    Hans: 'Microsoft YaHei',
+    Hant: 'Microsoft JhengHei',
+    Jpan: 'Yu Gothic',
+    Kore: 'Malgun Gothic',
+  },
+  useDetectedNames: false,
+};
+
+export const FONT_FAMILY_LABELS: Record<DetectedTextElement['fontFamily'], string> = {
+  'sans-serif': 'Sans-serif',
+  'serif': 'Serif',
+  'monospace': 'Monospace',
+  'handwriting': 'Handwriting',
+};
+
+export const EAST_ASIAN_LABELS: Record<EastAsianScript, string> = {
+  Hans: 'Chinese (Simplified)',
+  Hant: 'Chinese (Traditional)',
+  Jpan: 'Japanese',
+  Kore: 'Korean',
+};
+
+// Missing or blank entries fall back to the defaults, so older saved profiles keep working
+const withDefaults = (profile: Partial<FontProfile>): FontProfile => {
+  const families = { ...DEFAULT_FONT_PROFILE.families };
+  (Object.keys(families) as DetectedTextElement['fontFamily'][]).forEach(family => {
+    const saved = profile.families?.[family];
+    if (saved?.regular?.trim()) {
+      families[family] = { regular: saved.regular.trim(), bold: saved.bold?.trim() || undefined };
+    }
+  });
+  const eastAsian = { ...DEFAULT_FONT_PROFILE.eastAsian };
+  EAST_ASIAN_SCRIPTS.forEach(script => {
+    const saved = profile.eastAsian?.[script]?.trim();
+    if (saved) eastAsian[script] = saved;
+  });
+  return { families, eastAsian, useDetectedNames: profile.useDetectedNames ?? DEFAULT_FONT_PROFILE.useDetectedNames };
+};
+
+export const loadFontProfile = (): FontProfile => {
+  try {
+    const saved = localStorage.getItem(FONT_PROFILE_KEY);
+    return saved ? withDefaults(JSON.parse(saved)) : DEFAULT_FONT_PROFILE;
+  } catch {
+    return DEFAULT_FONT_PROFILE;
+  }
+};
+
+export const saveFontProfile = (profile: FontProfile) => {
+  try {
+    localStorage.setItem(FONT_PROFILE_KEY, JSON.stringify(profile));
+  } catch (e) {
+    console.warn("Could not save font profile", e);
+  }
+};
+
+const availability = new Map<string, boolean | undefined>();
+const PROBE_TEXT = 'mmmmmmmmmmlli10WQ@';
+
+/**
+ * Whether a font is installed on this machine: text set in it measures
+ * differently from the generic fallbacks. Undefined when nothing can be measured.
+ */
+export const isFontAvailable = (fontFace: string): boolean | undefined => {
+  if (availability.has(fontFace)) return availability.get(fontFace);
+  const ctx = getMeasureContext();
+  let result: boolean | undefined;
+  if (ctx) {
+    result = ['monospace', 'serif', 'sans-serif'].some(generic => {
+      ctx.font = `72px ${generic}`;
+      const fallback = ctx.measureText(PROBE_TEXT).width;
+      ctx.font = `72px "${fontFace}", ${generic}`;
+      return ctx.measureText(PROBE_TEXT).width !== fallback;
+    });
+  }
+  availability.set(fontFace, result);
+  return result;
+};
+
+type FontRequest = Pick<DetectedTextElement, 'text' | 'fontFamily' | 'fontWeight' | 'fontName' | 'script' | 'language'>;
+
+// The profile's face for an element's script, family and weight, ignoring any detected name
+const mappedFace = (el: FontRequest, profile: FontProfile): string => {
+  // Latin brand fonts rarely carry CJK glyphs, so CJK text gets its own face
+  const script = getElementScript(el);
+  if (isEastAsianScript(script)) return profile.eastAsian[script];
+  const mapping = profile.families[el.fontFamily] || profile.families['sans-serif'];
+  return (el.fontWeight === 'bold' && mapping.bold) || mapping.regular;
+};
+
+/**
+ * The font face an exporter should use for an element. A detected font name
+ * wins when the profile allows it and the font is not known to be missing.
+ */
+export const resolveFontFace = (el: FontRequest, profile: FontProfile): string => {
+  if (profile.useDetectedNames && el.fontName && isFontAvailable(el.fontName) !== false) return el.fontName;
+  return mappedFace(el, profile);
+};
+
+export interface FontReportEntry {
+  detected: string; // The detected font name, or the family and weight when no name is known
+  used: string; // Face written to the export
+  installed?: boolean; // Whether `used` is installed here; undefined when unknown
+  reason: 'mapped' | 'not-installed' | 'detected';
+  substituted: boolean; // The detected font was replaced, or the face used is missing here
+  elements: number;
+  slides: number[]; // 1-based
+}
+
+/**
+ * Lists which face every detected font ended up as. Entries where the
+ * detected font was replaced, or the chosen face is missing, come first.
+ */
+export const buildFontReport = (images: ProcessedImage[], profile: FontProfile): FontReportEntry[] => {
+  const entries = new Map<string, FontReportEntry>();
+
+  images.forEach((img, index) => {
+    (img.elements || []).forEach(el => {
+      const used = resolveFontFace(el, profile);
+      const detected = el.fontName || `${FONT_FAMILY_LABELS[el.fontFamily] || el.fontFamily}${el.fontWeight === 'bold' ? ' bold' : ''}`;
+      const reason: FontReportEntry['reason'] = el.fontName === used
+        ? 'detected'
+        : el.fontName && profile.useDetectedNames ? 'not-installed' : 'mapped';
+
+      const key = `${detected}\u0000${used}`;
+      const installed = isFontAvailable(used);
+      const substituted = (!!el.fontName && el.fontName !== used) || installed === false;
+      const entry = entries.get(key) || { detected, used, installed, reason, substituted, elements: 0, slides: [] };
+      entry.elements++;
+      if (!entry.slides.includes(index + 1)) entry.slides.push(index + 1);
+      entries.set(key, entry);
+    });
+  });
+
+  return [...entries.values()].sort((a, b) => Number(b.substituted) - Number(a.substituted) || b.elements - a.elements);
+};
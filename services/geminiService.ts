@@ -1,5 +1,7 @@
-import { GoogleGenAI, Type, Schema } from "@google/genai";
-import { DetectedTextElement } from "../types";
+import { GoogleGenAI, GenerateContentResponse, Type, Schema, HarmCategory, HarmBlockThreshold } from "@google/genai";
+import { ModelCallUsage, SlideLayout } from "../types";
+import { parseLayoutResponse } from "./layoutValidation";
+import { blobToBase64 } from "./binaryUtils";
 
 const SYSTEM_INSTRUCTION = `
 You are an expert Presentation Layout Engine. Your goal is to analyze an image (which will be a slide in a presentation) and extract ALL text elements to reconstruct an editable PowerPoint with HIGH FIDELITY.
@@ -25,96 +27,369 @@ CRITICAL INSTRUCTIONS:
    - **fontStyle**: Is the font Slanted/Italic? Return 'italic'. Otherwise 'normal'.
    - **fontFamily**: Match the vibe (serif, sans-serif, handwriting).
    - **textShadowHex**: If the letters have a drop shadow, return the shadow color.
+   - **fontName** (only when asked for font names): the closest widely available typeface by name, e.g. "Montserrat", "Georgia", "Roboto Slab". Omit it when you cannot tell.
 
 4. **BOUNDING BOXES**: 
    - The box_2d must encompass the ENTIRE container if hasContainer=true.
+   - For rotated text (tilted labels, diagonal stamps, text running up a chart axis), box_2d is the axis-aligned box around the rotated text as it appears, and **rotation** is the angle of its baseline in degrees clockwise from horizontal (-180 to 180; text reading bottom-to-top is -90). Omit rotation for horizontal text.
+   - Set **vertical** to true for vertical writing (CJK characters stacked top to bottom in columns read right to left). Do not use rotation for it.
 
-Return an array of these elements.
+5. **MIXED STYLING (runs)**:
+   - If part of a block is styled differently (a highlighted word, a bold number, an underlined link, a larger first word), return **runs**: the block split into consecutive pieces, each with its own color, bold, italic, underline and fontSize.
+   - Concatenating the run texts (including \\n) MUST reproduce the "text" field exactly.
+   - Omit runs when the whole block shares one style.
+
+6. **LISTS & PARAGRAPHS**:
+   - Keep a bulleted or numbered list in ONE element, one line per item.
+   - Return **paragraphs** with exactly one entry per line of "text": bullet ('bullet', 'number' or 'none'), indentLevel (0 for top level, 1 for sub-items, ...) and lineSpacing (multiple of single spacing, e.g. 1.0 or 1.5).
+   - Do NOT include the bullet glyph or the item number ("•", "-", "1.") in the text; the bullet field represents it.
+
+7. **TABLES**:
+   - A grid of cells with row/column structure (data tables, comparison matrices) goes in **tables**, NOT in elements. Never emit table cell text as separate elements.
+   - Give rows, cols and one entry in cells per visible cell with its 0-based row/col. A merged cell uses rowSpan/colSpan and the cells it covers are omitted.
+   - colWidths: relative width of each column (fractions summing to 1).
+   - hasHeaderRow plus headerFillColor/headerTextColor for a styled first row; fillColor, textColor and borderColor for the body (omit borderColor if there are no visible lines).
+
+8. **SHAPES & CONNECTORS** (only when asked to detect shapes):
+   - Return **shapes** for non-text vector primitives of diagrams: plain rectangles, rounded rectangles, ellipses/circles, straight lines and arrows.
+   - Do NOT return shapes for text containers already described by hasContainer, for photos, icons or complex illustrations.
+   - Lines and arrows: give start and end as [y, x] (0-1000). The arrow head is at the end unless arrowHeads says 'start' or 'both'.
+   - fillColor / strokeColor as Hex (omit if none), strokeWidth on the 0-1000 scale of the slide height, dashed for dashed strokes.
+
+9. **CHARTS** (only when asked to detect charts):
+   - Return **charts** for bar, column, line, area, pie and doughnut charts: chartType ('bar' = horizontal bars, 'column' = vertical bars), categories (x-axis or slice labels) and series with a name and one approximate value per category, read off the axis scale or data labels.
+   - box_2d must cover the whole chart including its title, axes and legend.
+   - Chart titles, axis labels, tick labels, legends and data labels belong to the chart. Do NOT emit them as elements.
+
+10. **LANGUAGE & SCRIPT**:
+   - For every element return **language** as a BCP 47 tag (e.g. "en", "zh-CN", "zh-TW", "ja", "ko", "ar", "he") and **script** as an ISO 15924 code: Latn, Cyrl, Grek, Arab, Hebr, Hans (Simplified Chinese), Hant (Traditional Chinese), Jpan, Kore, Thai or Deva.
+   - Transcribe right-to-left text (Arabic, Hebrew) in logical reading order, exactly as it would be typed, not in visual order.
+   - Do not insert spaces between Chinese, Japanese or Korean characters, and only use \\n where the slide visibly starts a new line.
+
+Return an object with "elements" (text blocks), "tables", "shapes" and "charts".
 `;
 
-const responseSchema: Schema = {
+const textElementSchema: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    text: { type: Type.STRING },
+    box_2d: {
+      type: Type.ARRAY,
+      items: { type: Type.NUMBER }, // Changed from INTEGER to NUMBER for robustness
+      description: "ymin, xmin, ymax, xmax (0-1000 scale)",
+    },
+    textColor: { type: Type.STRING, description: "Hex color code of the text" },
+    hasContainer: { type: Type.BOOLEAN, description: "True if text is inside a visual box/shape" },
+    containerColor: { type: Type.STRING, description: "Hex color of the container if hasContainer is true", nullable: true },
+    containerOpacity: { type: Type.NUMBER, description: "Opacity from 0.0 to 1.0", nullable: true },
+    strokeColor: { type: Type.STRING, description: "Hex color of text outline if exists", nullable: true },
+    fontSize: { type: Type.NUMBER }, // Changed from INTEGER to NUMBER
+    fontFamily: { type: Type.STRING, enum: ["serif", "sans-serif", "monospace", "handwriting"] },
+    fontName: { type: Type.STRING, description: "Closest known typeface name, only when asked", nullable: true },
+    language: { type: Type.STRING, description: "BCP 47 language tag, e.g. en, zh-CN, ar", nullable: true },
+    script: { type: Type.STRING, enum: ["Latn", "Cyrl", "Grek", "Arab", "Hebr", "Hans", "Hant", "Jpan", "Kore", "Thai", "Deva"], nullable: true },
+    rotation: { type: Type.NUMBER, description: "Degrees clockwise from horizontal, only for rotated text", nullable: true },
+    vertical: { type: Type.BOOLEAN, description: "True for vertical writing (top-to-bottom columns)", nullable: true },
+    fontWeight: { type: Type.STRING, enum: ["bold", "normal"] },
+    fontStyle: { type: Type.STRING, enum: ["italic", "normal"] },
+    isTitle: { type: Type.BOOLEAN },
+    alignment: { type: Type.STRING, enum: ["left", "center", "right"] },
+    textShadowHex: { type: Type.STRING, description: "Hex color of text shadow if exists", nullable: true },
+    runs: {
+      type: Type.ARRAY,
+      description: "Consecutive styled pieces of the text, only when styling varies within the block",
+      nullable: true,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          text: { type: Type.STRING },
+          color: { type: Type.STRING, description: "Hex color of this run", nullable: true },
+          bold: { type: Type.BOOLEAN, nullable: true },
+          italic: { type: Type.BOOLEAN, nullable: true },
+          underline: { type: Type.BOOLEAN, nullable: true },
+          fontSize: { type: Type.NUMBER, description: "Relative size, same scale as the block fontSize", nullable: true },
+        },
+        required: ["text"],
+      },
+    },
+    paragraphs: {
+      type: Type.ARRAY,
+      description: "One entry per line of text describing list structure",
+      nullable: true,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          bullet: { type: Type.STRING, enum: ["bullet", "number", "none"] },
+          indentLevel: { type: Type.INTEGER, description: "0 = top level" },
+          lineSpacing: { type: Type.NUMBER, description: "Multiple of single line spacing", nullable: true },
+        },
+        required: ["bullet", "indentLevel"],
+      },
+    },
+  },
+  required: ["text", "box_2d", "textColor", "hasContainer", "fontSize", "alignment", "fontWeight", "fontStyle"],
+};
+
+const tableSchema: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    box_2d: {
+      type: Type.ARRAY,
+      items: { type: Type.NUMBER },
+      description: "ymin, xmin, ymax, xmax (0-1000 scale) of the whole table",
+    },
+    rows: { type: Type.INTEGER },
+    cols: { type: Type.INTEGER },
+    cells: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          row: { type: Type.INTEGER },
+          col: { type: Type.INTEGER },
+          text: { type: Type.STRING },
+          rowSpan: { type: Type.INTEGER, nullable: true },
+          colSpan: { type: Type.INTEGER, nullable: true },
+          bold: { type: Type.BOOLEAN, nullable: true },
+          fillColor: { type: Type.STRING, description: "Hex background of this cell if it differs", nullable: true },
+          textColor: { type: Type.STRING, description: "Hex text color of this cell if it differs", nullable: true },
+        },
+        required: ["row", "col", "text"],
+      },
+    },
+    colWidths: { type: Type.ARRAY, items: { type: Type.NUMBER }, description: "Relative column widths", nullable: true },
+    hasHeaderRow: { type: Type.BOOLEAN },
+    headerFillColor: { type: Type.STRING, nullable: true },
+    headerTextColor: { type: Type.STRING, nullable: true },
+    fillColor: { type: Type.STRING, description: "Hex background of body cells", nullable: true },
+    textColor: { type: Type.STRING },
+    borderColor: { type: Type.STRING, description: "Hex color of grid lines", nullable: true },
+    fontSize: { type: Type.NUMBER },
+  },
+  required: ["box_2d", "rows", "cols", "cells", "hasHeaderRow", "textColor", "fontSize"],
+};
+
+const pointSchema: Schema = {
   type: Type.ARRAY,
-  items: {
-    type: Type.OBJECT,
-    properties: {
-      text: { type: Type.STRING },
-      box_2d: {
-        type: Type.ARRAY,
-        items: { type: Type.NUMBER }, // Changed from INTEGER to NUMBER for robustness
-        description: "ymin, xmin, ymax, xmax (0-1000 scale)",
+  items: { type: Type.NUMBER },
+  description: "y, x (0-1000 scale)",
+  nullable: true,
+};
+
+const shapeSchema: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    kind: { type: Type.STRING, enum: ["rectangle", "roundedRectangle", "ellipse", "line", "arrow"] },
+    box_2d: {
+      type: Type.ARRAY,
+      items: { type: Type.NUMBER },
+      description: "ymin, xmin, ymax, xmax (0-1000 scale)",
+    },
+    start: pointSchema,
+    end: pointSchema,
+    arrowHeads: { type: Type.STRING, enum: ["end", "start", "both"], nullable: true },
+    fillColor: { type: Type.STRING, description: "Hex fill color, omit if unfilled", nullable: true },
+    strokeColor: { type: Type.STRING, description: "Hex outline/line color", nullable: true },
+    strokeWidth: { type: Type.NUMBER, description: "Line thickness on the 0-1000 slide height scale", nullable: true },
+    dashed: { type: Type.BOOLEAN, nullable: true },
+  },
+  required: ["kind", "box_2d"],
+};
+
+const chartSchema: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    chartType: { type: Type.STRING, enum: ["bar", "column", "line", "area", "pie", "doughnut"] },
+    box_2d: {
+      type: Type.ARRAY,
+      items: { type: Type.NUMBER },
+      description: "ymin, xmin, ymax, xmax (0-1000 scale) of the whole chart",
+    },
+    title: { type: Type.STRING, nullable: true },
+    categories: { type: Type.ARRAY, items: { type: Type.STRING } },
+    series: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          name: { type: Type.STRING },
+          values: { type: Type.ARRAY, items: { type: Type.NUMBER } },
+          color: { type: Type.STRING, description: "Hex color of this series", nullable: true },
+        },
+        required: ["name", "values"],
       },
-      textColor: { type: Type.STRING, description: "Hex color code of the text" },
-      hasContainer: { type: Type.BOOLEAN, description: "True if text is inside a visual box/shape" },
-      containerColor: { type: Type.STRING, description: "Hex color of the container if hasContainer is true", nullable: true },
-      containerOpacity: { type: Type.NUMBER, description: "Opacity from 0.0 to 1.0", nullable: true },
-      strokeColor: { type: Type.STRING, description: "Hex color of text outline if exists", nullable: true },
-      fontSize: { type: Type.NUMBER }, // Changed from INTEGER to NUMBER
-      fontFamily: { type: Type.STRING, enum: ["serif", "sans-serif", "monospace", "handwriting"] },
-      fontWeight: { type: Type.STRING, enum: ["bold", "normal"] },
-      fontStyle: { type: Type.STRING, enum: ["italic", "normal"] },
-      isTitle: { type: Type.BOOLEAN },
-      alignment: { type: Type.STRING, enum: ["left", "center", "right"] },
-      textShadowHex: { type: Type.STRING, description: "Hex color of text shadow if exists", nullable: true },
     },
-    required: ["text", "box_2d", "textColor", "hasContainer", "fontSize", "alignment", "fontWeight", "fontStyle"],
+    stacked: { type: Type.BOOLEAN, nullable: true },
+    showLegend: { type: Type.BOOLEAN, nullable: true },
+    showValues: { type: Type.BOOLEAN, description: "True if values are printed on the chart", nullable: true },
+    textColor: { type: Type.STRING, description: "Hex color of axis labels and legend", nullable: true },
+  },
+  required: ["chartType", "box_2d", "categories", "series"],
+};
+
+const responseSchema: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    elements: { type: Type.ARRAY, items: textElementSchema },
+    tables: { type: Type.ARRAY, items: tableSchema, nullable: true },
+    shapes: { type: Type.ARRAY, items: shapeSchema, nullable: true },
+    charts: { type: Type.ARRAY, items: chartSchema, nullable: true },
   },
+  required: ["elements"],
 };
 
 const SAFETY_SETTINGS = [
-  { category: 'HARM_CATEGORY_HATE_SPEECH', threshold: 'BLOCK_NONE' },
-  { category: 'HARM_CATEGORY_SEXUALLY_EXPLICIT', threshold: 'BLOCK_NONE' },
-  { category: 'HARM_CATEGORY_HARASSMENT', threshold: 'BLOCK_NONE' },
-  { category: 'HARM_CATEGORY_DANGEROUS_CONTENT', threshold: 'BLOCK_NONE' },
+  { category: HarmCategory.HARM_CATEGORY_HATE_SPEECH, threshold: HarmBlockThreshold.BLOCK_NONE },
+  { category: HarmCategory.HARM_CATEGORY_SEXUALLY_EXPLICIT, threshold: HarmBlockThreshold.BLOCK_NONE },
+  { category: HarmCategory.HARM_CATEGORY_HARASSMENT, threshold: HarmBlockThreshold.BLOCK_NONE },
+  { category: HarmCategory.HARM_CATEGORY_DANGEROUS_CONTENT, threshold: HarmBlockThreshold.BLOCK_NONE },
 ];
 
-const fileToGenerativePart = async (file: File): Promise<string> => {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-    reader.onloadend = () => {
-      const base64String = reader.result as string;
-      const base64Data = base64String.split(',')[1];
-      resolve(base64Data);
-    };
-    reader.onerror = reject;
-    reader.readAsDataURL(file);
+export const GEMINI_LAYOUT_MODEL = "gemini-2.5-flash";
+export const GEMINI_IMAGE_MODEL = "gemini-2.5-flash-image";
+// Bump when a prompt or schema changes, so cached answers to the old one are not reused
+export const LAYOUT_PROMPT_VERSION = 1;
+export const CLEANING_PROMPT_VERSION = 1;
+
+// Keeps the repair prompt small when the first answer was huge or had many problems
+const MAX_REPAIR_ECHO_CHARS = 20_000;
+const MAX_REPAIR_PROBLEMS = 20;
+
+// Aspect ratios the image model can generate
+const SUPPORTED_ASPECT_RATIOS = ["1:1", "2:3", "3:2", "3:4", "4:3", "9:16", "16:9", "21:9"] as const;
+export type GeminiAspectRatio = typeof SUPPORTED_ASPECT_RATIOS[number];
+
+/**
+ * Picks the generatable aspect ratio closest to the source (compared in log space
+ * so portrait and landscape are treated symmetrically). The result is still
+ * realigned to the exact source size afterwards; this only minimises distortion.
+ */
+export const getClosestAspectRatio = (width: number, height: number): GeminiAspectRatio => {
+  if (!width || !height) return "16:9";
+  const target = Math.log(width / height);
+  let best: GeminiAspectRatio = "16:9";
+  let bestDelta = Infinity;
+  for (const ratio of SUPPORTED_ASPECT_RATIOS) {
+    const [w, h] = ratio.split(':').map(Number);
+    const delta = Math.abs(Math.log(w / h) - target);
+    if (delta < bestDelta) {
+      best = ratio;
+      bestDelta = delta;
+    }
+  }
+  return best;
+};
+
+// Raw base64 without the data URL header, as inlineData expects
+const fileToGenerativePart = (file: File): Promise<string> => blobToBase64(file);
+
+// Thinking tokens are billed as output, so they count towards it
+const reportUsage = (onUsage: ((call: ModelCallUsage) => void) | undefined, model: string, response: GenerateContentResponse, imageGenerations = 0) => {
+  const metadata = response.usageMetadata;
+  onUsage?.({
+    model,
+    inputTokens: metadata?.promptTokenCount ?? 0,
+    outputTokens: (metadata?.candidatesTokenCount ?? 0) + (metadata?.thoughtsTokenCount ?? 0),
+    imageGenerations,
   });
 };
 
+export interface AnalyzeLayoutOptions {
+  model?: string;
+  detectShapes?: boolean; // Also return diagram shapes and connectors
+  detectCharts?: boolean; // Also return charts as structured data
+  detectFontNames?: boolean; // Also name the closest known typeface of each block
+  signal?: AbortSignal;
+  onUsage?: (call: ModelCallUsage) => void; // Called for every response, including the repair
+}
+
 export const analyzeImageLayout = async (
   file: File, 
-  apiKey: string
-): Promise<DetectedTextElement[]> => {
+  apiKey: string,
+  { model = GEMINI_LAYOUT_MODEL, detectShapes = false, detectCharts = false, detectFontNames = false, signal, onUsage }: AnalyzeLayoutOptions = {}
+): Promise<SlideLayout> => {
   if (!apiKey) throw new Error("API Key is missing");
 
   const ai = new GoogleGenAI({ apiKey });
   const base64Data = await fileToGenerativePart(file);
+  const imagePart = { inlineData: { mimeType: file.type, data: base64Data } };
+  const config = {
+    systemInstruction: SYSTEM_INSTRUCTION,
+    responseMimeType: "application/json",
+    responseSchema: responseSchema,
+    temperature: 0.1,
+    safetySettings: SAFETY_SETTINGS, // Added safety settings
+    abortSignal: signal,
+  };
 
   try {
     const response = await ai.models.generateContent({
-      model: "gemini-2.5-flash",
+      model,
       contents: {
         parts: [
-          { inlineData: { mimeType: file.type, data: base64Data } },
-          { text: "Analyze this slide. Group text in containers. Identify exact colors, bold/italic styles, and container opacity." }
+          imagePart,
+          { text: "Analyze this slide. Group text in containers. Identify exact colors, bold/italic styles, container opacity, any mixed styling within a block as runs, bullet/numbered list structure, and tables." },
+          { text: detectShapes
+              ? "Also detect diagram shapes and connectors (rectangles, ellipses, lines, arrows) as shapes."
+              : "Do not return shapes." },
+          { text: detectCharts
+              ? "Also detect charts and extract their data as charts."
+              : "Do not return charts; treat chart text as regular elements." },
+          { text: detectFontNames
+              ? "Also name the closest known typeface of each text block as fontName."
+              : "Do not return fontName." }
         ],
       },
-      config: {
-        systemInstruction: SYSTEM_INSTRUCTION,
-        responseMimeType: "application/json",
-        responseSchema: responseSchema,
-        temperature: 0.1,
-        safetySettings: SAFETY_SETTINGS, // Added safety settings
-      }
+      config,
     });
+    reportUsage(onUsage, model, response);
 
-    let jsonText = response.text;
+    const jsonText = response.text;
     if (!jsonText) throw new Error("Empty response from Gemini. The image might have triggered safety filters even with loose settings, or the model failed to generate text.");
 
-    // Sanitize JSON: remove markdown code blocks if present
-    jsonText = jsonText.replace(/```json/g, '').replace(/```/g, '').trim();
+    let result = parseLayoutResponse(jsonText);
 
-    const data = JSON.parse(jsonText) as DetectedTextElement[];
-    return data;
+    // One repair attempt: show the model its own answer and what was wrong with it
+    if (result.severe) {
+      console.warn("Gemini layout failed validation, asking for a repair", result.warnings);
+      // A failed repair keeps the first answer; retrying would pay for the analysis again
+      const repaired = await ai.models.generateContent({
+        model,
+        contents: {
+          parts: [
+            imagePart,
+            { text: `Your previous answer for this slide was:\n${jsonText.slice(0, MAX_REPAIR_ECHO_CHARS)}` },
+            { text: `It failed validation:\n- ${result.warnings.slice(0, MAX_REPAIR_PROBLEMS).join('\n- ')}\n\nReturn the corrected layout as valid JSON matching the schema. Every box_2d is [ymin, xmin, ymax, xmax] on a 0-1000 scale and every color is a #RRGGBB hex.` },
+          ],
+        },
+        config,
+      }).then(repair => {
+        reportUsage(onUsage, model, repair);
+        if (!repair.text) throw new Error("Empty response");
+        return parseLayoutResponse(repair.text);
+      }).catch(error => {
+        if (signal?.aborted) throw error;
+        console.warn("Gemini layout repair failed, keeping the first answer", error);
+        result = { ...result, warnings: [...result.warnings, 'Repair request failed, kept the first answer'] };
+        return undefined;
+      });
+      // The first answer's warnings stay so the card shows why a repair was needed
+      if (repaired && (!repaired.severe || repaired.layout.elements.length >= result.layout.elements.length)) {
+        result = { ...repaired, warnings: [...result.warnings, ...repaired.warnings] };
+      }
+      if (result.severe && result.layout.elements.length === 0) {
+        throw new Error(`Gemini returned an unusable layout: ${result.warnings[0]}`);
+      }
+    }
+
+    const { layout, warnings } = result;
+    return {
+      ...layout,
+      elements: detectFontNames ? layout.elements : layout.elements.map(({ fontName, ...el }) => el),
+      shapes: detectShapes ? layout.shapes : [],
+      charts: detectCharts ? layout.charts : [],
+      warnings,
+    };
 
   } catch (error) {
     console.error("Gemini Analysis Failed:", error);
@@ -125,7 +400,8 @@ export const analyzeImageLayout = async (
 export const removeTextFromImage = async (
   file: File,
   apiKey: string,
-  aspectRatio: "16:9" | "4:3" | "1:1" = "16:9"
+  aspectRatio: GeminiAspectRatio = "16:9",
+  { removeShapes = false, removeCharts = false, signal, onUsage }: { removeShapes?: boolean; removeCharts?: boolean; signal?: AbortSignal; onUsage?: (call: ModelCallUsage) => void } = {}
 ): Promise<string> => {
   if (!apiKey) throw new Error("API Key is missing");
 
@@ -134,11 +410,15 @@ export const removeTextFromImage = async (
 
   try {
     const response = await ai.models.generateContent({
-      model: "gemini-2.5-flash-image",
+      model: GEMINI_IMAGE_MODEL,
       contents: {
         parts: [
           { inlineData: { mimeType: file.type, data: base64Data } },
-          { text: "Strictly remove ALL text, captions, subtitles, and labels from this image. If text is inside a simple box, bubble, or banner that serves only as a text container, remove that container as well to leave a clean background. Ensure there are no 'ghost' letters or residual outlines. Fill the erased areas to match the surrounding texture and art style perfectly." }
+          { text: "Strictly remove ALL text, captions, subtitles, and labels from this image. If text is inside a simple box, bubble, or banner that serves only as a text container, remove that container as well to leave a clean background. Ensure there are no 'ghost' letters or residual outlines. Fill the erased areas to match the surrounding texture and art style perfectly." + (removeShapes
+            ? " Also remove all flat diagram shapes: plain rectangles, rounded rectangles, ellipses, connector lines and arrows. Keep photos, icons and illustrations."
+            : "") + (removeCharts
+            ? " Also remove all charts (bars, lines, pie slices, axes, gridlines and legends) and fill their area with the surrounding background."
+            : "") }
         ],
       },
       config: {
@@ -146,6 +426,7 @@ export const removeTextFromImage = async (
           aspectRatio: aspectRatio
         },
         safetySettings: SAFETY_SETTINGS, // Added safety settings
+        abortSignal: signal,
       }
     });
 
@@ -159,6 +440,8 @@ export const removeTextFromImage = async (
       }
     }
 
+    reportUsage(onUsage, GEMINI_IMAGE_MODEL, response, cleanImageBase64 ? 1 : 0);
+
     if (!cleanImageBase64) {
       throw new Error("No image generated for background cleaning");
     }
@@ -0,0 +1,222 @@
+import { DetectedTextElement, GhostTextCheck } from "../types";
+import { boxToPixels, imageDataToDataUrl, loadImage, loadImageData, loadImageDataFromUrl } from "./imageUtils";
+import { buildInpaintMask, inpaintImageData } from "./inpaintService";
+import { isAbortError } from "./jobQueue";
+
+type Box2d = DetectedTextElement['box_2d'];
+type Rect = { x0: number; y0: number; x1: number; y1: number }; // Inclusive pixel bounds
+
+// Luminance gradient (|dx| + |dy|) that counts as an edge; faint outlines are enough to give a ghost away
+const GLYPH_EDGE_THRESHOLD = 40;
+const GHOST_EDGE_THRESHOLD = 16;
+const MIN_GLYPH_EDGES = 24; // Boxes with fewer edges in the source have nothing to leave behind
+const GHOST_OVERLAP = 0.2; // Share of the source's glyph edges still found in the cleaned image
+const TEXTURE_RATIO = 1.5; // Edges inside the box must exceed the surroundings by this much
+const MAX_PASSES = 2;
+const MAX_AI_CROPS = 6; // Per pass; further regions are inpainted locally
+const CROP_CONTEXT = 0.5; // Context around a box sent with a crop, relative to the box height
+
+// Re-cleans one crop; returns a data URL of it without text, at any size of roughly the same proportions
+export type CropCleaner = (crop: File) => Promise<string>;
+
+// 1 where the luminance gradient is steep, i.e. on glyph outlines and other sharp detail
+const edgeMap = (data: ImageData, threshold: number): Uint8Array => {
+  const { width, height } = data;
+  const lum = new Float32Array(width * height);
+  for (let i = 0; i < lum.length; i++) {
+    lum[i] = 0.299 * data.data[i * 4] + 0.587 * data.data[i * 4 + 1] + 0.114 * data.data[i * 4 + 2];
+  }
+  const edges = new Uint8Array(width * height);
+  for (let y = 0; y < height - 1; y++) {
+    for (let x = 0; x < width - 1; x++) {
+      const i = y * width + x;
+      if (Math.abs(lum[i + 1] - lum[i]) + Math.abs(lum[i + width] - lum[i]) >= threshold) edges[i] = 1;
+    }
+  }
+  return edges;
+};
+
+const toRect = (box: Box2d, width: number, height: number, pad = 0): Rect => {
+  const r = boxToPixels(box, width, height);
+  return {
+    x0: Math.max(0, Math.floor(r.x0 - pad)),
+    y0: Math.max(0, Math.floor(r.y0 - pad)),
+    x1: Math.min(width - 1, Math.ceil(r.x1 + pad)),
+    y1: Math.min(height - 1, Math.ceil(r.y1 + pad)),
+  };
+};
+
+const edgeDensity = (edges: Uint8Array, width: number, rect: Rect, exclude?: Rect) => {
+  let count = 0;
+  let total = 0;
+  for (let y = rect.y0; y <= rect.y1; y++) {
+    for (let x = rect.x0; x <= rect.x1; x++) {
+      if (exclude && x >= exclude.x0 && x <= exclude.x1 && y >= exclude.y0 && y <= exclude.y1) continue;
+      count += edges[y * width + x];
+      total++;
+    }
+  }
+  return total > 0 ? count / total : 0;
+};
+
+/**
+ * Boxes whose text survived cleaning. A box is flagged when a good share of
+ * the glyph edges in the source are still edges (within a pixel) in the
+ * cleaned image, and it has clearly more edges than its surroundings, so
+ * textured backgrounds are not mistaken for leftover text.
+ */
+export const findGhostText = (source: ImageData, background: ImageData, boxes: Box2d[]): Box2d[] => {
+  const { width, height } = background;
+  const sourceEdges = edgeMap(source, GLYPH_EDGE_THRESHOLD);
+  const edges = edgeMap(background, GHOST_EDGE_THRESHOLD);
+
+  return boxes.filter(box => {
+    const rect = toRect(box, width, height);
+    let glyphEdges = 0;
+    let surviving = 0;
+    for (let y = rect.y0; y <= rect.y1; y++) {
+      for (let x = rect.x0; x <= rect.x1; x++) {
+        if (!sourceEdges[y * width + x]) continue;
+        glyphEdges++;
+        search: for (let dy = -1; dy <= 1; dy++) {
+          for (let dx = -1; dx <= 1; dx++) {
+            const nx = x + dx;
+            const ny = y + dy;
+            if (nx >= 0 && ny >= 0 && nx < width && ny < height && edges[ny * width + nx]) {
+              surviving++;
+              break search;
+            }
+          }
+        }
+      }
+    }
+    if (glyphEdges < MIN_GLYPH_EDGES || surviving / glyphEdges < GHOST_OVERLAP) return false;
+
+    const ring = Math.max(4, Math.round((rect.y1 - rect.y0) * 0.5));
+    const surroundings = edgeDensity(edges, width, toRect(box, width, height, ring), rect);
+    return edgeDensity(edges, width, rect) > Math.max(surroundings * TEXTURE_RATIO, 0.01);
+  });
+};
+
+// Flagged boxes with their context, merged where they overlap so each area is re-cleaned once
+const groupRegions = (boxes: Box2d[], width: number, height: number) => {
+  const regions = boxes.map(box => {
+    const r = boxToPixels(box, width, height);
+    return { rect: toRect(box, width, height, Math.max(8, (r.y1 - r.y0) * CROP_CONTEXT)), boxes: [box] };
+  });
+  for (let merged = true; merged;) {
+    merged = false;
+    for (let i = 0; i < regions.length && !merged; i++) {
+      for (let j = i + 1; j < regions.length && !merged; j++) {
+        const a = regions[i].rect;
+        const b = regions[j].rect;
+        if (a.x0 <= b.x1 && b.x0 <= a.x1 && a.y0 <= b.y1 && b.y0 <= a.y1) {
+          regions[i] = {
+            rect: { x0: Math.min(a.x0, b.x0), y0: Math.min(a.y0, b.y0), x1: Math.max(a.x1, b.x1), y1: Math.max(a.y1, b.y1) },
+            boxes: [...regions[i].boxes, ...regions[j].boxes],
+          };
+          regions.splice(j, 1);
+          merged = true;
+        }
+      }
+    }
+  }
+  return regions;
+};
+
+const cropToFile = async (data: ImageData, rect: Rect): Promise<File> => {
+  const canvas = document.createElement('canvas');
+  canvas.width = rect.x1 - rect.x0 + 1;
+  canvas.height = rect.y1 - rect.y0 + 1;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Canvas 2D context unavailable");
+  ctx.putImageData(data, -rect.x0, -rect.y0);
+  const blob = await new Promise<Blob>((resolve, reject) =>
+    canvas.toBlob(b => (b ? resolve(b) : reject(new Error("Failed to encode crop"))), 'image/png')
+  );
+  return new File([blob], 'crop.png', { type: 'image/png' });
+};
+
+// Copies the re-cleaned crop into the background, but only over the flagged boxes themselves
+const compositeCrop = async (background: ImageData, rect: Rect, boxes: Box2d[], cleanedUrl: string) => {
+  const img = await loadImage(cleanedUrl);
+  const canvas = document.createElement('canvas');
+  canvas.width = rect.x1 - rect.x0 + 1;
+  canvas.height = rect.y1 - rect.y0 + 1;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error("Canvas 2D context unavailable");
+  ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+  const patch = ctx.getImageData(0, 0, canvas.width, canvas.height).data;
+
+  const { width, height } = background;
+  boxes.forEach(box => {
+    const r = toRect(box, width, height, 2);
+    for (let y = Math.max(r.y0, rect.y0); y <= Math.min(r.y1, rect.y1); y++) {
+      for (let x = Math.max(r.x0, rect.x0); x <= Math.min(r.x1, rect.x1); x++) {
+        const from = ((y - rect.y0) * canvas.width + (x - rect.x0)) * 4;
+        const to = (y * width + x) * 4;
+        background.data[to] = patch[from];
+        background.data[to + 1] = patch[from + 1];
+        background.data[to + 2] = patch[from + 2];
+      }
+    }
+  });
+};
+
+/**
+ * Looks for text left behind in a cleaned background and re-cleans only the
+ * boxes where it finds some, up to MAX_PASSES times. Crops go to `cleanCrop`
+ * when given (falling back to local inpainting if it fails); otherwise the
+ * boxes are inpainted locally. The background is expected at the source size.
+ */
+export const removeGhostText = async (
+  backgroundUrl: string,
+  file: File,
+  boxes: Box2d[],
+  cleanCrop?: CropCleaner
+): Promise<{ dataUrl: string; check: GhostTextCheck }> => {
+  const background = await loadImageDataFromUrl(backgroundUrl);
+  const source = await loadImageData(file);
+  if (source.width !== background.width || source.height !== background.height) {
+    throw new Error("Background and source sizes differ");
+  }
+  const { width, height } = background;
+
+  let flagged = findGhostText(source, background, boxes);
+  const found = flagged.length;
+  let passes = 0;
+  let usedModel = false;
+
+  while (flagged.length > 0 && passes < MAX_PASSES) {
+    passes++;
+    const regions = groupRegions(flagged, width, height);
+    const local: Box2d[] = [];
+    for (const [index, region] of regions.entries()) {
+      if (!cleanCrop || index >= MAX_AI_CROPS) {
+        local.push(...region.boxes);
+        continue;
+      }
+      try {
+        await compositeCrop(background, region.rect, region.boxes, await cleanCrop(await cropToFile(background, region.rect)));
+        usedModel = true;
+      } catch (err) {
+        if (isAbortError(err)) throw err;
+        console.warn("Re-cleaning a crop failed, inpainting it locally", err);
+        local.push(...region.boxes);
+      }
+    }
+    if (local.length > 0) inpaintImageData(background, buildInpaintMask(background, local, { inkOnly: false }));
+    flagged = findGhostText(source, background, flagged);
+  }
+
+  return {
+    dataUrl: passes > 0 ? imageDataToDataUrl(background) : backgroundUrl,
+    check: {
+      passes,
+      flagged: found,
+      remaining: flagged.length,
+      method: passes === 0 ? undefined : usedModel ? 'ai' : 'local',
+      outcome: found === 0 ? 'clean' : flagged.length === 0 ? 'fixed' : 'residual',
+    },
+  };
+};
@@ -0,0 +1,269 @@
+import { DetectedShape, DetectedTable, DetectedTextElement, FontProfile, ProcessedImage } from "../types";
+import type { Exporter } from "./exporters";
+import { cropImageRegion } from "./imageUtils";
+import { getStyledLines } from "./layoutUtils";
+import { resolveFontFace } from "./fontService";
+import { getElementLanguage, getElementScript, isRtlScript } from "./scriptUtils";
+import {
+  cleanHex, fileToBase64, getBackgroundDataUrl, getFittedFontSize, getTextFrame, ImageArea,
+} from "./pptService";
+
+const NAV_HEIGHT_PX = 48;
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const color = (hex?: string) => `#${cleanHex(hex)}`;
+const pct = (value: number) => `${value.toFixed(3)}%`;
+
+const FONT_STACKS: Record<DetectedTextElement['fontFamily'], string> = {
+  'sans-serif': 'sans-serif',
+  'serif': 'serif',
+  'monospace': 'monospace',
+  'handwriting': 'cursive',
+};
+
+// Font names are free text; callers writing this into an attribute must escape it
+export const fontStack = (fontFace: string, family: DetectedTextElement['fontFamily']) =>
+  `'${fontFace.replace(/'/g, '')}', ${FONT_STACKS[family] || 'sans-serif'}`;
+
+// Positions are percentages of the slide so everything scales with the viewport
+const placement = (rect: ImageArea, area: ImageArea) =>
+  `left:${pct((rect.x / area.w) * 100)};top:${pct((rect.y / area.h) * 100)};` +
+  `width:${pct((rect.w / area.w) * 100)};height:${pct((rect.h / area.h) * 100)};`;
+
+const boxToRect = ([ymin, xmin, ymax, xmax]: [number, number, number, number], area: ImageArea): ImageArea => ({
+  x: (xmin / 1000) * area.w,
+  y: (ymin / 1000) * area.h,
+  w: ((xmax - xmin) / 1000) * area.w,
+  h: ((ymax - ymin) / 1000) * area.h,
+});
+
+// Point sizes are converted to container-height units of the slide
+const fontSizeCss = (points: number, area: ImageArea) => `${((points / (area.h * 72)) * 100).toFixed(3)}cqh`;
+
+const textElementHtml = (el: DetectedTextElement, area: ImageArea, fonts: FontProfile) => {
+  const frame = getTextFrame(el, area);
+  const fontFace = resolveFontFace(el, fonts);
+  const { fontSize } = getFittedFontSize(el, fontFace, frame, area, el.hasContainer ? 2 : 0);
+
+  let style = placement(frame, area) +
+    `text-align:${el.alignment};font-family:${fontStack(fontFace, el.fontFamily)};font-size:${fontSizeCss(fontSize, area)};`;
+  if (el.hasContainer) {
+    const opacity = el.containerOpacity ?? 1;
+    const alpha = Math.round(opacity * 255).toString(16).padStart(2, '0');
+    style += `background:${color(el.containerColor || 'FFFFFF')}${alpha};border:1px solid #88888880;` +
+      `border-radius:${fontSizeCss(Math.min(frame.w, frame.h) * 72 * 0.1, area)};box-shadow:0 2px 3px #0000004d;padding:0 0.2em;`;
+  }
+  if (el.strokeColor) style += `-webkit-text-stroke:0.03em ${color(el.strokeColor)};`;
+  if (el.rotation) style += `transform:rotate(${el.rotation}deg);`;
+  if (el.vertical) style += 'writing-mode:vertical-rl;';
+
+  // Numbered lines count up within a run of same-level list lines, like a real list
+  const counters: number[] = [];
+  const lines = getStyledLines(el).map(line => {
+    const format = line.format;
+    const level = format?.indentLevel || 0;
+    counters.length = level + 1;
+    let marker = '';
+    if (format?.bullet === 'number') {
+      counters[level] = (counters[level] || 0) + 1;
+      marker = `${counters[level]}. `;
+    } else {
+      counters[level] = 0;
+      if (format?.bullet === 'bullet') marker = '• ';
+    }
+
+    const spans = line.pieces.map(piece => {
+      const pieceStyle = `color:${color(piece.color)};font-weight:${piece.bold ? 'bold' : 'normal'};` +
+        `font-style:${piece.italic ? 'italic' : 'normal'};` +
+        (piece.underline ? 'text-decoration:underline;' : '') +
+        (piece.sizeScale !== 1 ? `font-size:${piece.sizeScale.toFixed(3)}em;` : '');
+      return `<span style="${pieceStyle}">${escapeHtml(piece.text)}</span>`;
+    }).join('');
+
+    const lineStyle = (level > 0 ? `padding-inline-start:${level * 1.5}em;` : '') +
+      (format?.lineSpacing ? `line-height:${format.lineSpacing * 1.2};` : '');
+    const markerHtml = marker ? `<span style="color:${color(el.textColor)}">${marker}</span>` : '';
+    return `<p style="${lineStyle}">${markerHtml}${spans || '&nbsp;'}</p>`;
+  });
+
+  const lang = getElementLanguage(el);
+  const dir = isRtlScript(getElementScript(el)) ? ' dir="rtl"' : '';
+  return `<div class="el"${lang ? ` lang="${escapeHtml(lang)}"` : ''}${dir} style="${escapeHtml(style)}">${lines.join('')}</div>`;
+};
+
+const tableHtml = (table: DetectedTable, area: ImageArea, fonts: FontProfile) => {
+  const rows = Math.max(1, Math.round(table.rows));
+  const cols = Math.max(1, Math.round(table.cols));
+  const rect = boxToRect(table.box_2d, area);
+  const fontSize = Math.min(18, Math.max(8, (rect.h / rows) * 72 * 0.45));
+  const border = table.borderColor ? `1px solid ${color(table.borderColor)}` : 'none';
+
+  const widthSum = table.colWidths?.reduce((a, b) => a + b, 0) || 0;
+  const colgroup = table.colWidths && table.colWidths.length === cols && widthSum > 0
+    ? `<colgroup>${table.colWidths.map(cw => `<col style="width:${pct((cw / widthSum) * 100)}">`).join('')}</colgroup>`
+    : '';
+
+  const cellAt = new Map(table.cells.map(c => [`${c.row}:${c.col}`, c]));
+  const covered = new Set<string>();
+  const body: string[] = [];
+
+  for (let r = 0; r < rows; r++) {
+    const isHeader = table.hasHeaderRow && r === 0;
+    const cells: string[] = [];
+    for (let c = 0; c < cols; c++) {
+      if (covered.has(`${r}:${c}`)) continue;
+      const cell = cellAt.get(`${r}:${c}`);
+      const rowspan = Math.min(rows - r, Math.max(1, cell?.rowSpan || 1));
+      const colspan = Math.min(cols - c, Math.max(1, cell?.colSpan || 1));
+      for (let dr = 0; dr < rowspan; dr++) {
+        for (let dc = 0; dc < colspan; dc++) {
+          if (dr > 0 || dc > 0) covered.add(`${r + dr}:${c + dc}`);
+        }
+      }
+
+      const fill = cell?.fillColor || (isHeader ? table.headerFillColor : table.fillColor);
+      const textColor = cell?.textColor || (isHeader ? table.headerTextColor || table.textColor : table.textColor);
+      const cellStyle = `border:${border};color:${color(textColor)};font-weight:${(cell?.bold ?? isHeader) ? 'bold' : 'normal'};` +
+        (fill ? `background:${color(fill)};` : '');
+      const spans = (rowspan > 1 ? ` rowspan="${rowspan}"` : '') + (colspan > 1 ? ` colspan="${colspan}"` : '');
+      const text = escapeHtml(cell?.text || '').replace(/\n/g, '<br>');
+      cells.push(`<td${spans} style="${cellStyle}">${text}</td>`);
+    }
+    body.push(`<tr>${cells.join('')}</tr>`);
+  }
+
+  const style = `${placement(rect, area)}font-family:${fontStack(fonts.families['sans-serif'].regular, 'sans-serif')};font-size:${fontSizeCss(fontSize, area)};`;
+  return `<table class="el" style="${escapeHtml(style)}">${colgroup}${body.join('')}</table>`;
+};
+
+/**
+ * Draws diagram primitives into one SVG per slide. The viewBox keeps the
+ * slide's proportions so strokes and ellipses are not distorted.
+ */
+const shapesSvg = (shapes: DetectedShape[], area: ImageArea) => {
+  const W = 1000;
+  const H = (1000 * area.h) / area.w;
+  const toY = (v: number) => (v / 1000) * H;
+  const markers = new Set<string>();
+
+  const elements = shapes.map(shape => {
+    const strokeWidth = shape.strokeWidth ? Math.max(0.5, (shape.strokeWidth / 1000) * H) : H / 500;
+    const dash = shape.dashed ? ` stroke-dasharray="${strokeWidth * 4} ${strokeWidth * 2}"` : '';
+
+    if (shape.kind === 'line' || shape.kind === 'arrow') {
+      const [y1, x1] = shape.start || [shape.box_2d[0], shape.box_2d[1]];
+      const [y2, x2] = shape.end || [shape.box_2d[2], shape.box_2d[3]];
+      const stroke = cleanHex(shape.strokeColor || shape.fillColor);
+      const heads = shape.kind === 'arrow' ? shape.arrowHeads || 'end' : undefined;
+      if (heads) markers.add(stroke);
+      const markerAttrs =
+        (heads === 'start' || heads === 'both' ? ` marker-start="url(#arrow-${stroke})"` : '') +
+        (heads === 'end' || heads === 'both' ? ` marker-end="url(#arrow-${stroke})"` : '');
+      return `<line x1="${x1}" y1="${toY(y1)}" x2="${x2}" y2="${toY(y2)}" stroke="#${stroke}" stroke-width="${strokeWidth}"${dash}${markerAttrs}/>`;
+    }
+
+    const [ymin, xmin, ymax, xmax] = shape.box_2d;
+    const paint = `fill="${shape.fillColor ? color(shape.fillColor) : 'none'}"` +
+      (shape.strokeColor ? ` stroke="${color(shape.strokeColor)}" stroke-width="${strokeWidth}"${dash}` : '');
+    if (shape.kind === 'ellipse') {
+      return `<ellipse cx="${(xmin + xmax) / 2}" cy="${toY((ymin + ymax) / 2)}" rx="${(xmax - xmin) / 2}" ry="${toY(ymax - ymin) / 2}" ${paint}/>`;
+    }
+    const radius = shape.kind === 'roundedRectangle' ? Math.min(xmax - xmin, toY(ymax - ymin)) * 0.1 : 0;
+    return `<rect x="${xmin}" y="${toY(ymin)}" width="${xmax - xmin}" height="${toY(ymax - ymin)}" rx="${radius}" ${paint}/>`;
+  });
+
+  const defs = [...markers].map(stroke =>
+    `<marker id="arrow-${stroke}" viewBox="0 0 10 10" refX="9" refY="5" markerWidth="5" markerHeight="5" orient="auto-start-reverse"><path d="M0,0L10,5L0,10z" fill="#${stroke}"/></marker>`
+  ).join('');
+
+  return `<svg class="shapes" viewBox="0 0 ${W} ${H}">${defs ? `<defs>${defs}</defs>` : ''}${elements.join('')}</svg>`;
+};
+
+const slideHtml = async (img: ProcessedImage, index: number, fonts: FontProfile) => {
+  const ratio = img.width / img.height;
+  // Same nominal geometry as a 10in-wide PPTX slide, so font sizes match the other exports
+  const area: ImageArea = { x: 0, y: 0, w: 10, h: 10 / ratio };
+  const parts: string[] = [];
+
+  try {
+    parts.push(`<img class="bg" src="${await getBackgroundDataUrl(img)}" alt="">`);
+  } catch (e) {
+    console.error("Failed to load background image", e);
+  }
+
+  if (img.shapes && img.shapes.length > 0) parts.push(shapesSvg(img.shapes, area));
+  (img.tables || []).forEach(table => parts.push(tableHtml(table, area, fonts)));
+
+  // Charts keep the original pixels; rebuilding them would need a charting library
+  if (img.charts && img.charts.length > 0) {
+    const source = await fileToBase64(img.file);
+    for (const chart of img.charts) {
+      const crop = await cropImageRegion(img.file, source, chart.box_2d).catch(err => {
+        console.warn(`Chart "${chart.title || 'untitled'}" on ${img.file.name} could not be cropped and is left out`, err);
+        return undefined;
+      });
+      if (crop) parts.push(`<img class="el" src="${crop}" alt="${escapeHtml(chart.title || 'Chart')}" style="${placement(boxToRect(chart.box_2d, area), area)}">`);
+    }
+  }
+
+  (img.elements || []).forEach(el => parts.push(textElementHtml(el, area, fonts)));
+
+  const size = `width:min(100vw, calc((100vh - ${NAV_HEIGHT_PX}px) * ${ratio.toFixed(4)}));aspect-ratio:${img.width} / ${img.height};`;
+  return `<section class="slide${index === 0 ? ' active' : ''}" style="${size}">${parts.join('')}</section>`;
+};
+
+const PAGE_STYLE = `
+*{box-sizing:border-box}
+html,body{margin:0;height:100%;background:#111;overflow:hidden}
+.deck{height:calc(100% - ${NAV_HEIGHT_PX}px);display:flex;align-items:center;justify-content:center}
+.slide{display:none;position:relative;container-type:size;overflow:hidden;background:#000}
+.slide.active{display:block}
+.bg,.shapes{position:absolute;inset:0;width:100%;height:100%}
+.el{position:absolute;display:flex;flex-direction:column;justify-content:center;margin:0;line-height:1.2;white-space:pre-wrap;overflow-wrap:break-word}
+.el p{margin:0}
+table.el{display:table;border-collapse:collapse;table-layout:fixed}
+table.el td{padding:0 0.3em;vertical-align:middle;overflow:hidden}
+nav{height:${NAV_HEIGHT_PX}px;display:flex;align-items:center;justify-content:center;gap:16px;color:#ddd;font:14px sans-serif}
+nav button{background:#333;color:#fff;border:0;border-radius:6px;padding:6px 14px;cursor:pointer;font:inherit}
+`;
+
+// Arrow keys, space and the buttons move between slides; the hash keeps the position on reload
+const NAV_SCRIPT = `
+var slides=document.querySelectorAll('.slide');var counter=document.getElementById('counter');var current=0;
+function show(i){current=Math.max(0,Math.min(slides.length-1,i));slides.forEach(function(s,n){s.classList.toggle('active',n===current)});counter.textContent=(current+1)+' / '+slides.length;history.replaceState(null,'','#'+(current+1));}
+document.getElementById('prev').onclick=function(){show(current-1)};document.getElementById('next').onclick=function(){show(current+1)};
+document.addEventListener('keydown',function(e){if(e.key==='ArrowRight'||e.key==='PageDown'||e.key===' ')show(current+1);if(e.key==='ArrowLeft'||e.key==='PageUp')show(current-1);if(e.key==='Home')show(0);if(e.key==='End')show(slides.length-1);});
+show((parseInt(location.hash.slice(1),10)||1)-1);
+`;
+
+export const htmlExporter: Exporter = {
+  id: 'html',
+  label: 'HTML slideshow',
+  extension: 'html',
+  description: 'Single self-contained web page with selectable text over the cleaned backgrounds',
+  export: async (images, options, baseName) => {
+    const slides: string[] = [];
+    for (const [index, img] of images.entries()) {
+      slides.push(await slideHtml(img, index, options.fonts));
+    }
+
+    const html = `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="UTF-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(baseName)}</title>
+<style>${PAGE_STYLE}</style>
+</head>
+<body>
+<div class="deck">${slides.join('\n')}</div>
+<nav><button id="prev" aria-label="Previous slide">&#8592;</button><span id="counter"></span><button id="next" aria-label="Next slide">&#8594;</button></nav>
+<script>${NAV_SCRIPT}</script>
+</body>
+</html>`;
+
+    return [{ fileName: `${baseName}.html`, data: new Blob([html], { type: 'text/html' }) }];
+  },
+};
@@ -0,0 +1,214 @@
+import { readImageSize } from "./binaryUtils";
+
+export type RGB = [number, number, number];
+
+// Decoding pixels needs a DOM image and canvas; headless runs (e.g. the CLI in Node) skip the pixel passes
+export const canDecodeImages = () => typeof document !== 'undefined' && typeof Image !== 'undefined';
+
+// Load any image source (object URL, data URL) into a decoded HTMLImageElement
+export const loadImage = (src: string): Promise<HTMLImageElement> => {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error("Failed to decode image"));
+    img.src = src;
+  });
+};
+
+// Decodes an image URL (object or data URL) into raw RGBA pixels at its natural resolution
+export const loadImageDataFromUrl = async (src: string): Promise<ImageData> => {
+  const img = await loadImage(src);
+  const canvas = document.createElement('canvas');
+  canvas.width = img.naturalWidth;
+  canvas.height = img.naturalHeight;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error("Canvas 2D context unavailable");
+  ctx.drawImage(img, 0, 0);
+  return ctx.getImageData(0, 0, canvas.width, canvas.height);
+};
+
+/**
+ * Pixel size of an image file. Common formats are read from the header, so this
+ * also works without a DOM; anything else is decoded by the browser.
+ */
+export const getImageSize = async (file: Blob): Promise<{ width: number; height: number }> => {
+  const size = readImageSize(new Uint8Array(await file.slice(0, 256 * 1024).arrayBuffer()));
+  if (size && size.width > 0 && size.height > 0) return size;
+  if (!canDecodeImages()) throw new Error("Unsupported image format");
+  const url = URL.createObjectURL(file);
+  try {
+    const img = await loadImage(url);
+    return { width: img.naturalWidth, height: img.naturalHeight };
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
+
+/**
+ * Decodes a file into raw RGBA pixels at its natural resolution.
+ * Used by the local (non-AI) passes that need to look at actual pixel values.
+ */
+export const loadImageData = async (file: Blob): Promise<ImageData> => {
+  const url = URL.createObjectURL(file);
+  try {
+    return await loadImageDataFromUrl(url);
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
+
+export const rgbToHex = ([r, g, b]: RGB): string => {
+  return '#' + [r, g, b].map(v => Math.round(v).toString(16).padStart(2, '0')).join('').toUpperCase();
+};
+
+export const colorDistance = (a: RGB, b: RGB): number => {
+  return Math.sqrt((a[0] - b[0]) ** 2 + (a[1] - b[1]) ** 2 + (a[2] - b[2]) ** 2);
+};
+
+const pixelAt = (data: ImageData, x: number, y: number): RGB => {
+  const i = (y * data.width + x) * 4;
+  return [data.data[i], data.data[i + 1], data.data[i + 2]];
+};
+
+const average = (pixels: RGB[]): RGB => {
+  if (pixels.length === 0) return [0, 0, 0];
+  const sum = pixels.reduce<RGB>((acc, p) => [acc[0] + p[0], acc[1] + p[1], acc[2] + p[2]], [0, 0, 0]);
+  return [sum[0] / pixels.length, sum[1] / pixels.length, sum[2] / pixels.length];
+};
+
+// Average color of the outermost pixel ring, e.g. to extend a slide into letterbox bars
+export const averageEdgeColor = (data: ImageData): RGB => {
+  const edge: RGB[] = [];
+  const step = Math.max(1, Math.floor(Math.max(data.width, data.height) / 500));
+  for (let x = 0; x < data.width; x += step) {
+    edge.push(pixelAt(data, x, 0), pixelAt(data, x, data.height - 1));
+  }
+  for (let y = 0; y < data.height; y += step) {
+    edge.push(pixelAt(data, 0, y), pixelAt(data, data.width - 1, y));
+  }
+  return average(edge);
+};
+
+export interface RegionColors {
+  background: RGB;
+  foreground: RGB;
+  inkRatio: number; // Share of pixels in the region that belong to the foreground
+}
+
+/**
+ * Estimates background and foreground (ink) colors inside a pixel rectangle.
+ * The background is taken from the rectangle's border, the foreground from
+ * the pixels that differ most from it.
+ */
+export const sampleRegionColors = (
+  data: ImageData,
+  rect: { x0: number; y0: number; x1: number; y1: number }
+): RegionColors => {
+  const x0 = Math.max(0, Math.floor(rect.x0));
+  const y0 = Math.max(0, Math.floor(rect.y0));
+  const x1 = Math.min(data.width - 1, Math.ceil(rect.x1));
+  const y1 = Math.min(data.height - 1, Math.ceil(rect.y1));
+
+  if (x1 <= x0 || y1 <= y0) {
+    return { background: [255, 255, 255], foreground: [0, 0, 0], inkRatio: 0 };
+  }
+
+  // Border ring approximates the background
+  const border: RGB[] = [];
+  for (let x = x0; x <= x1; x++) {
+    border.push(pixelAt(data, x, y0), pixelAt(data, x, y1));
+  }
+  for (let y = y0; y <= y1; y++) {
+    border.push(pixelAt(data, x0, y), pixelAt(data, x1, y));
+  }
+  const background = average(border);
+
+  // Subsample the interior for speed on large boxes
+  const step = Math.max(1, Math.floor(Math.sqrt(((x1 - x0) * (y1 - y0)) / 20000)));
+  const interior: { p: RGB; d: number }[] = [];
+  for (let y = y0; y <= y1; y += step) {
+    for (let x = x0; x <= x1; x += step) {
+      const p = pixelAt(data, x, y);
+      interior.push({ p, d: colorDistance(p, background) });
+    }
+  }
+
+  const ink = interior.filter(s => s.d > 60);
+  if (ink.length === 0) {
+    return { background, foreground: background, inkRatio: 0 };
+  }
+
+  // The most distinct pixels are the glyph cores; anti-aliased edges are ignored
+  ink.sort((a, b) => b.d - a.d);
+  const core = ink.slice(0, Math.max(1, Math.ceil(ink.length * 0.5))).map(s => s.p);
+
+  return { background, foreground: average(core), inkRatio: ink.length / interior.length };
+};
+
+// Encodes raw pixels back into a PNG data URL
+export const imageDataToDataUrl = (data: ImageData): string => {
+  const canvas = document.createElement('canvas');
+  canvas.width = data.width;
+  canvas.height = data.height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Canvas 2D context unavailable");
+  ctx.putImageData(data, 0, 0);
+  return canvas.toDataURL('image/png');
+};
+
+// Converts a 0-1000 box_2d into pixel coordinates for an image of the given size
+export const boxToPixels = (
+  box: [number, number, number, number],
+  width: number,
+  height: number
+) => {
+  const [ymin, xmin, ymax, xmax] = box;
+  return {
+    x0: (Math.min(xmin, xmax) / 1000) * width,
+    y0: (Math.min(ymin, ymax) / 1000) * height,
+    x1: (Math.max(xmin, xmax) / 1000) * width,
+    y1: (Math.max(ymin, ymax) / 1000) * height,
+  };
+};
+
+// Cuts a 0-1000 box out of an image as a PNG data URL, e.g. to keep a region as a picture
+export const cropToDataUrl = async (src: string, box: [number, number, number, number]): Promise<string> => {
+  const img = await loadImage(src);
+  const r = boxToPixels(box, img.naturalWidth, img.naturalHeight);
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(r.x1 - r.x0));
+  canvas.height = Math.max(1, Math.round(r.y1 - r.y0));
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Canvas 2D context unavailable");
+  ctx.drawImage(img, r.x0, r.y0, r.x1 - r.x0, r.y1 - r.y0, 0, 0, canvas.width, canvas.height);
+  return canvas.toDataURL('image/png');
+};
+
+// The same crop as an SVG whose viewBox shows only the box of the embedded original; needs no canvas
+export const cropToSvgDataUrl = (
+  src: string,
+  size: { width: number; height: number },
+  box: [number, number, number, number]
+): string => {
+  const r = boxToPixels(box, size.width, size.height);
+  const w = Math.max(1, Math.round(r.x1 - r.x0));
+  const h = Math.max(1, Math.round(r.y1 - r.y0));
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink" width="${w}" height="${h}" viewBox="${Math.round(r.x0)} ${Math.round(r.y0)} ${w} ${h}">` +
+    `<image width="${size.width}" height="${size.height}" xlink:href="${src}"/></svg>`;
+  return `data:image/svg+xml;base64,${btoa(svg)}`;
+};
+
+/**
+ * Keeps a region of the original image as a picture. Headless runs, or a
+ * failed canvas crop, get the SVG crop so the region is never lost.
+ */
+export const cropImageRegion = async (file: Blob, src: string, box: [number, number, number, number]): Promise<string> => {
+  if (canDecodeImages()) {
+    try {
+      return await cropToDataUrl(src, box);
+    } catch (err) {
+      console.warn("Canvas crop failed, keeping the region as an SVG crop", err);
+    }
+  }
+  return cropToSvgDataUrl(src, await getImageSize(file), box);
+};
@@ -0,0 +1,174 @@
+import { DetectedTextElement } from "../types";
+import { boxToPixels, colorDistance, imageDataToDataUrl, loadImageData, sampleRegionColors } from "./imageUtils";
+
+type Box2d = DetectedTextElement['box_2d'];
+
+const INK_THRESHOLD = 40;   // Color distance from the local background that counts as text ink
+const DILATE_RADIUS = 3;    // Grow the ink mask to swallow anti-aliasing and halos
+const INPAINT_RADIUS = 5;   // Neighbourhood used to estimate each filled pixel
+const FULL_BOX_INK_RATIO = 0.6; // Above this the background estimate is unreliable; mask the whole box
+
+export interface MaskOptions {
+  // Only mask pixels that differ from the box background (keeps texture between glyphs)
+  inkOnly?: boolean;
+}
+
+/**
+ * Builds a binary mask (1 = pixel to reconstruct) from 0-1000 boxes.
+ * In ink-only mode each box contributes just its foreground pixels, dilated,
+ * which keeps gradients and photos intact around the letters.
+ */
+export const buildInpaintMask = (
+  data: ImageData,
+  boxes: Box2d[],
+  { inkOnly = true }: MaskOptions = {}
+): Uint8Array => {
+  const { width, height } = data;
+  const mask = new Uint8Array(width * height);
+
+  for (const box of boxes) {
+    const rect = boxToPixels(box, width, height);
+    const pad = Math.max(2, (rect.y1 - rect.y0) * 0.05);
+    const x0 = Math.max(0, Math.floor(rect.x0 - pad));
+    const y0 = Math.max(0, Math.floor(rect.y0 - pad));
+    const x1 = Math.min(width - 1, Math.ceil(rect.x1 + pad));
+    const y1 = Math.min(height - 1, Math.ceil(rect.y1 + pad));
+    if (x1 <= x0 || y1 <= y0) continue;
+
+    const { background, inkRatio } = sampleRegionColors(data, { x0, y0, x1, y1 });
+    const fullBox = !inkOnly || inkRatio > FULL_BOX_INK_RATIO;
+
+    const local = new Uint8Array((x1 - x0 + 1) * (y1 - y0 + 1));
+    const localWidth = x1 - x0 + 1;
+
+    for (let y = y0; y <= y1; y++) {
+      for (let x = x0; x <= x1; x++) {
+        if (fullBox) {
+          mask[y * width + x] = 1;
+          continue;
+        }
+        const i = (y * width + x) * 4;
+        const p: [number, number, number] = [data.data[i], data.data[i + 1], data.data[i + 2]];
+        if (colorDistance(p, background) > INK_THRESHOLD) {
+          local[(y - y0) * localWidth + (x - x0)] = 1;
+        }
+      }
+    }
+    if (fullBox) continue;
+
+    // Dilate within the box so halos around the glyphs are also replaced
+    for (let ly = 0; ly <= y1 - y0; ly++) {
+      for (let lx = 0; lx < localWidth; lx++) {
+        if (!local[ly * localWidth + lx]) continue;
+        for (let dy = -DILATE_RADIUS; dy <= DILATE_RADIUS; dy++) {
+          const y = y0 + ly + dy;
+          if (y < y0 || y > y1) continue;
+          for (let dx = -DILATE_RADIUS; dx <= DILATE_RADIUS; dx++) {
+            const x = x0 + lx + dx;
+            if (x < x0 || x > x1) continue;
+            mask[y * width + x] = 1;
+          }
+        }
+      }
+    }
+  }
+
+  return mask;
+};
+
+/**
+ * Fast-marching inpainting in the spirit of Telea (2004).
+ * Masked pixels are filled from the boundary inward; each one takes a weighted
+ * average of already-known neighbours, favouring close pixels and pixels that
+ * were known earlier (i.e. nearer the original boundary). Mutates `data`.
+ */
+export const inpaintImageData = (data: ImageData, mask: Uint8Array, radius = INPAINT_RADIUS): void => {
+  const { width, height } = data;
+  const pixels = data.data;
+  // Arrival "time" of the front: 0 for known pixels, 1.. for filled ones, -1 for pending
+  const time = new Int32Array(width * height);
+  const queue = new Int32Array(width * height);
+  let head = 0;
+  let tail = 0;
+
+  for (let i = 0; i < mask.length; i++) {
+    time[i] = mask[i] ? -1 : 0;
+  }
+
+  // Seed the front with masked pixels that touch known ones
+  for (let i = 0; i < mask.length; i++) {
+    if (!mask[i]) continue;
+    const x = i % width;
+    const y = (i / width) | 0;
+    if (
+      (x > 0 && !mask[i - 1]) || (x < width - 1 && !mask[i + 1]) ||
+      (y > 0 && !mask[i - width]) || (y < height - 1 && !mask[i + width])
+    ) {
+      time[i] = 1;
+      queue[tail++] = i;
+    }
+  }
+
+  while (head < tail) {
+    const i = queue[head++];
+    const x = i % width;
+    const y = (i / width) | 0;
+    const t = time[i];
+
+    let r = 0, g = 0, b = 0, total = 0;
+    for (let dy = -radius; dy <= radius; dy++) {
+      const ny = y + dy;
+      if (ny < 0 || ny >= height) continue;
+      for (let dx = -radius; dx <= radius; dx++) {
+        const nx = x + dx;
+        if (nx < 0 || nx >= width || (dx === 0 && dy === 0)) continue;
+        const j = ny * width + nx;
+        // Only pixels that are known or were filled on an earlier front
+        if (time[j] < 0 || (time[j] >= t && mask[j])) continue;
+        const dist2 = dx * dx + dy * dy;
+        if (dist2 > radius * radius) continue;
+        const weight = 1 / (dist2 * (1 + time[j]));
+        const k = j * 4;
+        r += pixels[k] * weight;
+        g += pixels[k + 1] * weight;
+        b += pixels[k + 2] * weight;
+        total += weight;
+      }
+    }
+
+    if (total > 0) {
+      const k = i * 4;
+      pixels[k] = r / total;
+      pixels[k + 1] = g / total;
+      pixels[k + 2] = b / total;
+    }
+
+    // Advance the front
+    const neighbours = [
+      x > 0 ? i - 1 : -1,
+      x < width - 1 ? i + 1 : -1,
+      y > 0 ? i - width : -1,
+      y < height - 1 ? i + width : -1,
+    ];
+    for (const n of neighbours) {
+      if (n >= 0 && time[n] < 0) {
+        time[n] = t + 1;
+        queue[tail++] = n;
+      }
+    }
+  }
+};
+
+/**
+ * Removes detected text (and other natively rebuilt regions) locally, without an
+ * image-generation model. Returns a PNG data URL at the source resolution.
+ */
+export const inpaintTextRegions = async (
+  file: File,
+  boxes: Box2d[]
+): Promise<string> => {
+  const data = await loadImageData(file);
+  const mask = buildInpaintMask(data, boxes);
+  inpaintImageData(data, mask);
+  return imageDataToDataUrl(data);
+};
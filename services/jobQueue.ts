@@ -0,0 +1,180 @@
+export interface RetryInfo {
+  attempt: number;
+  delayMs: number;
+  error: unknown;
+}
+
+export interface JobQueueOptions {
+  signal: AbortSignal; // Aborting cancels queued jobs and in-flight requests
+  initialConcurrency?: number;
+  maxConcurrency?: number;
+  maxRetries?: number; // Attempts after the first one, per request
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  timeoutMs?: number; // Per attempt
+  onRetry?: (info: RetryInfo) => void;
+}
+
+export interface JobQueue {
+  // Runs a job once a concurrency slot is free
+  add: (job: () => Promise<void>) => Promise<void>;
+  // Wraps one model call with timeout, retries and backoff; the call must honour the signal it is given.
+  // onRetry is told about this request's retries on top of the queue-wide handler.
+  request: <T>(call: (signal: AbortSignal) => Promise<T>, onRetry?: (info: RetryInfo) => void) => Promise<T>;
+  getConcurrency: () => number;
+}
+
+const DEFAULTS = {
+  initialConcurrency: 3,
+  maxConcurrency: 6,
+  maxRetries: 4,
+  baseDelayMs: 1000,
+  maxDelayMs: 60_000,
+  timeoutMs: 120_000,
+};
+
+// True for a user cancel; requests that run out of time reject with a TimeoutError instead
+export const isAbortError = (error: unknown): boolean =>
+  error instanceof Error && error.name === 'AbortError';
+
+const getStatus = (error: unknown): number | undefined => {
+  const status = (error as { status?: unknown })?.status;
+  return typeof status === 'number' ? status : undefined;
+};
+
+const isRateLimit = (error: unknown) =>
+  getStatus(error) === 429 || /RESOURCE_EXHAUSTED|rate limit|quota/i.test(String((error as Error)?.message));
+
+// Rate limits, overloaded or failing servers, timeouts and dropped connections are worth another attempt
+const isRetryable = (error: unknown): boolean => {
+  if (error instanceof Error && error.name === 'TimeoutError') return true;
+  const status = getStatus(error);
+  if (status !== undefined) return status === 408 || status === 429 || status >= 500;
+  if (isRateLimit(error)) return true;
+  return error instanceof TypeError && /fetch|network/i.test(error.message);
+};
+
+/**
+ * Server-suggested wait in ms. Gemini reports it as a RetryInfo `retryDelay`
+ * inside the error body; plain HTTP errors may carry a Retry-After value.
+ */
+export const getRetryAfterMs = (error: unknown): number | undefined => {
+  const message = String((error as Error)?.message || '');
+  const retryDelay = message.match(/"retryDelay"\s*:\s*"(\d+(?:\.\d+)?)s"/);
+  if (retryDelay) return Math.ceil(parseFloat(retryDelay[1]) * 1000);
+  const retryAfter = message.match(/retry[- ]after\D{0,3}(\d+(?:\.\d+)?)/i);
+  if (retryAfter) return Math.ceil(parseFloat(retryAfter[1]) * 1000);
+  return undefined;
+};
+
+const abortError = () => new DOMException("Processing was cancelled", 'AbortError');
+
+const timeoutError = (timeoutMs: number) => new DOMException(`Request timed out after ${timeoutMs}ms`, 'TimeoutError');
+
+const sleep = (ms: number, signal: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal.aborted) return reject(abortError());
+    const timer = setTimeout(() => {
+      signal.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortError());
+    };
+    signal.addEventListener('abort', onAbort, { once: true });
+  });
+
+// Signal for one attempt: fires on cancel or when the attempt runs out of time
+const createAttemptSignal = (signal: AbortSignal, timeoutMs: number) => {
+  const timeout = new AbortController();
+  const timer = setTimeout(
+    () => timeout.abort(timeoutError(timeoutMs)),
+    timeoutMs
+  );
+  return { signal: AbortSignal.any([signal, timeout.signal]), done: () => clearTimeout(timer) };
+};
+
+/**
+ * A job queue with additive-increase / multiplicative-decrease concurrency:
+ * every rate limit halves the number of parallel jobs, and a full round of
+ * successful requests lets it grow by one again, up to maxConcurrency.
+ */
+export const createJobQueue = (options: JobQueueOptions): JobQueue => {
+  const config = { ...DEFAULTS, ...options };
+  const { signal } = config;
+  let concurrency = Math.min(config.initialConcurrency, config.maxConcurrency);
+  let active = 0;
+  let successStreak = 0;
+  const waiting: (() => void)[] = [];
+
+  const pump = () => {
+    while (active < concurrency && waiting.length > 0) {
+      active++;
+      waiting.shift()!();
+    }
+  };
+
+  const add = async (job: () => Promise<void>) => {
+    if (signal.aborted) throw abortError();
+    await new Promise<void>((resolve, reject) => {
+      const start = () => {
+        signal.removeEventListener('abort', onAbort);
+        resolve();
+      };
+      const onAbort = () => {
+        const index = waiting.indexOf(start);
+        if (index >= 0) waiting.splice(index, 1);
+        reject(abortError());
+      };
+      signal.addEventListener('abort', onAbort, { once: true });
+      waiting.push(start);
+      pump();
+    });
+
+    try {
+      await job();
+    } finally {
+      active--;
+      pump();
+    }
+  };
+
+  const request = async <T,>(call: (signal: AbortSignal) => Promise<T>, onRetry?: (info: RetryInfo) => void): Promise<T> => {
+    for (let attempt = 0; ; attempt++) {
+      if (signal.aborted) throw abortError();
+      const current = createAttemptSignal(signal, config.timeoutMs);
+      try {
+        const result = await call(current.signal);
+        if (++successStreak >= concurrency && concurrency < config.maxConcurrency) {
+          concurrency++;
+          successStreak = 0;
+          pump();
+        }
+        return result;
+      } catch (error) {
+        // The user's cancel wins over any timeout or server error raised meanwhile
+        if (signal.aborted) throw abortError();
+        // Clients such as @google/genai abort with a plain AbortError whatever the reason, so the
+        // attempt's own signal tells a timeout apart from a cancel
+        const failure = current.signal.aborted ? timeoutError(config.timeoutMs) : error;
+        if (!isRetryable(failure) || attempt >= config.maxRetries) throw failure;
+
+        successStreak = 0;
+        if (isRateLimit(failure)) concurrency = Math.max(1, Math.floor(concurrency / 2));
+
+        // Jitter keeps parallel jobs from retrying in lockstep
+        const backoff = Math.min(config.maxDelayMs, config.baseDelayMs * 2 ** attempt);
+        const delayMs = Math.max(getRetryAfterMs(failure) ?? 0, Math.round(backoff / 2 + Math.random() * backoff / 2));
+        const info = { attempt: attempt + 1, delayMs, error: failure };
+        config.onRetry?.(info);
+        onRetry?.(info);
+        await sleep(delayMs, signal);
+      } finally {
+        current.done();
+      }
+    }
+  };
+
+  return { add, request, getConcurrency: () => concurrency };
+};
@@ -0,0 +1,168 @@
+import { DetectedShape, DetectedTextElement, ParagraphFormat, SlideLayout, TextRun } from "../types";
+
+type Box2d = [number, number, number, number];
+
+// Pixel-space rectangle of a line or paragraph found by OCR or in a PDF text layer
+export interface PixelRect {
+  x0: number;
+  y0: number;
+  x1: number;
+  y1: number;
+}
+
+// Lines are thin, so their box is padded by the stroke width to cover the whole stroke
+const getShapeBox = (shape: DetectedShape): Box2d => {
+  if ((shape.kind === 'line' || shape.kind === 'arrow') && shape.start && shape.end) {
+    const pad = Math.max(8, (shape.strokeWidth || 0) * 3);
+    return [
+      Math.max(0, Math.min(shape.start[0], shape.end[0]) - pad),
+      Math.max(0, Math.min(shape.start[1], shape.end[1]) - pad),
+      Math.min(1000, Math.max(shape.start[0], shape.end[0]) + pad),
+      Math.min(1000, Math.max(shape.start[1], shape.end[1]) + pad),
+    ];
+  }
+  return shape.box_2d;
+};
+
+// Every region of the slide that is rebuilt natively and must be removed from the background
+export const getLayoutBoxes = (layout: SlideLayout): Box2d[] => [
+  ...layout.elements.map(el => el.box_2d),
+  ...(layout.tables || []).map(t => t.box_2d),
+  ...(layout.shapes || []).map(getShapeBox),
+  ...(layout.charts || []).map(c => c.box_2d),
+];
+
+/**
+ * Picks the alignment whose edge varies least across the lines of a paragraph.
+ * Single lines have nothing to compare, so we fall back to their position on the page.
+ */
+export const estimateAlignment = (lines: PixelRect[], pageWidth: number): DetectedTextElement['alignment'] => {
+  if (lines.length < 2) {
+    const line = lines[0];
+    const center = (line.x0 + line.x1) / 2;
+    return Math.abs(center - pageWidth / 2) < pageWidth * 0.03 ? 'center' : 'left';
+  }
+
+  const spread = (values: number[]) => Math.max(...values) - Math.min(...values);
+  const left = spread(lines.map(l => l.x0));
+  const right = spread(lines.map(l => l.x1));
+  const center = spread(lines.map(l => (l.x0 + l.x1) / 2));
+
+  if (center < left && center < right) return 'center';
+  if (right < left) return 'right';
+  return 'left';
+};
+
+// Leading glyphs OCR reads for list markers
+const BULLET_PATTERN = /^([•·▪■●○◦\-–*»>])\s+/;
+const NUMBER_PATTERN = /^(\d{1,2}[.)]|[a-z]\))\s+/;
+
+/**
+ * Strips list markers from text lines and turns them into paragraph formats.
+ * Indent level comes from how far a line starts to the right of the leftmost line.
+ */
+export const detectParagraphs = (lines: { text: string; bbox: PixelRect }[]) => {
+  const minLeft = Math.min(...lines.map(l => l.bbox.x0));
+  const avgHeight = lines.reduce((sum, l) => sum + (l.bbox.y1 - l.bbox.y0), 0) / lines.length;
+
+  let hasStructure = false;
+  const parsed = lines.map(line => {
+    const raw = line.text.trim();
+    let bullet: ParagraphFormat['bullet'] = 'none';
+    let text = raw;
+    if (BULLET_PATTERN.test(raw)) {
+      bullet = 'bullet';
+      text = raw.replace(BULLET_PATTERN, '');
+    } else if (NUMBER_PATTERN.test(raw)) {
+      bullet = 'number';
+      text = raw.replace(NUMBER_PATTERN, '');
+    }
+    const indentLevel = Math.min(4, Math.round((line.bbox.x0 - minLeft) / (avgHeight * 1.5)));
+    if (bullet !== 'none' || indentLevel > 0) hasStructure = true;
+    return { text, format: { bullet, indentLevel } as ParagraphFormat };
+  });
+
+  return {
+    text: parsed.map(p => p.text).join('\n'),
+    paragraphs: hasStructure ? parsed.map(p => p.format) : undefined,
+  };
+};
+
+// Largest text in the top third of the slide is treated as the title
+export const markTitle = (elements: DetectedTextElement[]) => {
+  const titleCandidates = elements.filter(el => el.box_2d[0] < 333);
+  if (titleCandidates.length > 0) {
+    const title = titleCandidates.reduce((a, b) => (b.fontSize > a.fontSize ? b : a));
+    title.isTitle = true;
+  }
+};
+
+export interface StyledLine {
+  pieces: (Required<Omit<TextRun, 'fontSize'>> & { sizeScale: number })[];
+  format?: ParagraphFormat;
+}
+
+/**
+ * Resolves an element's runs and paragraphs into lines of fully styled pieces
+ * for exporters that lay text out themselves. Run sizes become a scale factor
+ * relative to the element's fontSize.
+ */
+export const getStyledLines = (el: DetectedTextElement): StyledLine[] => {
+  const runs: TextRun[] = el.runs && el.runs.length > 0 ? el.runs : [{ text: el.text }];
+  const lines: StyledLine[] = [{ pieces: [] }];
+
+  runs.forEach(run => {
+    const piece = {
+      color: run.color || el.textColor,
+      bold: run.bold ?? el.fontWeight === 'bold',
+      italic: run.italic ?? el.fontStyle === 'italic',
+      underline: !!run.underline,
+      sizeScale: run.fontSize && el.fontSize > 0 ? run.fontSize / el.fontSize : 1,
+    };
+    run.text.split('\n').forEach((part, idx) => {
+      if (idx > 0) lines.push({ pieces: [] });
+      if (part.length > 0) lines[lines.length - 1].pieces.push({ ...piece, text: part });
+    });
+  });
+
+  return lines.map((line, idx) => ({ ...line, format: el.paragraphs?.[idx] }));
+};
+
+export interface Frame {
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+}
+
+// Below this |cos² - sin²| (within about 7° of 45°) the bounding box no longer tells width from height
+const MIN_ROTATION_DETERMINANT = 0.25;
+
+// Expected height of an element's text on the 0-1000 image-height scale
+export const getTextThickness = (el: DetectedTextElement) =>
+  el.text.split('\n').length * el.fontSize * 1.2;
+
+/**
+ * Recovers the unrotated frame of rotated text from its axis-aligned bounding
+ * box, centred on the same point. Near 45° the text's expected thickness
+ * stands in for the frame height. All values share one unit.
+ */
+export const unrotateFrame = (box: Frame, rotation: number, thickness: number): Frame => {
+  const cos = Math.abs(Math.cos((rotation * Math.PI) / 180));
+  const sin = Math.abs(Math.sin((rotation * Math.PI) / 180));
+  const cx = box.x + box.w / 2;
+  const cy = box.y + box.h / 2;
+  const centred = (w: number, h: number): Frame => ({ x: cx - w / 2, y: cy - h / 2, w, h });
+
+  // box.w = w·cos + h·sin and box.h = w·sin + h·cos
+  const det = cos * cos - sin * sin;
+  if (Math.abs(det) >= MIN_ROTATION_DETERMINANT) {
+    const w = (box.w * cos - box.h * sin) / det;
+    const h = (box.h * cos - box.w * sin) / det;
+    if (w > 0 && h > 0) return centred(w, h);
+  }
+
+  const h = Math.min(Math.max(thickness, 0.01), box.w, box.h);
+  const w = cos >= sin ? (box.w - h * sin) / cos : (box.h - h * cos) / sin;
+  return centred(Math.max(w, h), h);
+};
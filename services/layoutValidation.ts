@@ -0,0 +1,423 @@
+import {
+  ChartSeries, DetectedChart, DetectedShape, DetectedTable, DetectedTableCell, DetectedTextElement,
+  ParagraphFormat, SlideLayout, TextRun, TextScript,
+} from "../types";
+import { detectScript, TEXT_SCRIPTS } from "./scriptUtils";
+
+type Box2d = [number, number, number, number];
+type Raw = Record<string, unknown>;
+
+export interface ValidationResult {
+  layout: SlideLayout;
+  warnings: string[];
+  // The answer is too broken to trust: unparsable, wrong shape, or most items had to be dropped
+  severe: boolean;
+}
+
+const MIN_BOX_SIZE = 2; // Boxes thinner than this (0-1000 scale) cannot hold anything
+const MAX_INDENT_LEVEL = 4;
+const MAX_FONT_NAME_LENGTH = 64;
+// Font names end up in CSS and markup; anything outside letters, digits and a little punctuation is dropped
+const FONT_NAME_UNSAFE = /[^\p{L}\p{N} .&+_-]/gu;
+const MIN_ROTATION = 1; // Degrees
+const HAN_SCRIPTS: TextScript[] = ['Hans', 'Hant', 'Jpan'];
+const LANGUAGE_TAG = /^[a-z]{2,3}(-[A-Za-z0-9]{2,8})*$/i;
+const SEVERE_DROP_RATIO = 0.5;
+
+const FONT_FAMILIES: DetectedTextElement['fontFamily'][] = ['serif', 'sans-serif', 'monospace', 'handwriting'];
+const ALIGNMENTS: DetectedTextElement['alignment'][] = ['left', 'center', 'right'];
+const BULLETS: ParagraphFormat['bullet'][] = ['bullet', 'number', 'none'];
+const SHAPE_KINDS: DetectedShape['kind'][] = ['rectangle', 'roundedRectangle', 'ellipse', 'line', 'arrow'];
+const CHART_TYPES: DetectedChart['chartType'][] = ['bar', 'column', 'line', 'area', 'pie', 'doughnut'];
+
+const isObject = (value: unknown): value is Raw =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+const label = (kind: string, index: number, text?: unknown) =>
+  typeof text === 'string' && text.trim()
+    ? `${kind} ${index + 1} ("${text.trim().slice(0, 24)}${text.trim().length > 24 ? '…' : ''}")`
+    : `${kind} ${index + 1}`;
+
+/**
+ * Collects the warnings for one slide. `fix` records a repaired value,
+ * `drop` an item that could not be used at all.
+ */
+const createReport = () => {
+  const warnings: string[] = [];
+  return {
+    warnings,
+    fix: (where: string, message: string) => warnings.push(`${where}: ${message}`),
+    drop: (where: string, message: string) => warnings.push(`${where}: ${message}, dropped`),
+  };
+};
+
+type Report = ReturnType<typeof createReport>;
+
+// Accepts #RGB / #RRGGBB with or without '#'; returns #RRGGBB or undefined
+export const normalizeHex = (value: unknown): string | undefined => {
+  if (typeof value !== 'string') return undefined;
+  const match = value.trim().match(/^#?([0-9a-f]{3}|[0-9a-f]{6})$/i);
+  if (!match) return undefined;
+  const hex = match[1].length === 3 ? match[1].split('').map(c => c + c).join('') : match[1];
+  return `#${hex.toUpperCase()}`;
+};
+
+const optionalColor = (raw: Raw, key: string, where: string, report: Report): string | undefined => {
+  const value = raw[key];
+  if (value === undefined || value === null || value === '') return undefined;
+  const hex = normalizeHex(value);
+  if (!hex) report.fix(where, `invalid ${key} "${String(value)}" removed`);
+  return hex;
+};
+
+const requiredColor = (raw: Raw, key: string, fallback: string, where: string, report: Report): string => {
+  const hex = normalizeHex(raw[key]);
+  if (!hex) report.fix(where, `invalid ${key} "${String(raw[key] ?? '')}", using ${fallback}`);
+  return hex || fallback;
+};
+
+const enumValue = <T extends string>(raw: Raw, key: string, allowed: T[], fallback: T, where: string, report: Report): T => {
+  const value = raw[key];
+  if (typeof value === 'string' && (allowed as string[]).includes(value)) return value as T;
+  if (value !== undefined && value !== null) report.fix(where, `unknown ${key} "${String(value)}", using "${fallback}"`);
+  return fallback;
+};
+
+const point = (value: unknown): [number, number] | undefined =>
+  Array.isArray(value) && value.length === 2 && value.every(isNumber)
+    ? [clamp(value[0], 0, 1000), clamp(value[1], 0, 1000)]
+    : undefined;
+
+/**
+ * Makes a usable [ymin, xmin, ymax, xmax]: clamps to 0-1000 and swaps
+ * inverted edges. Returns undefined when the box cannot be recovered.
+ */
+const normalizeBox = (value: unknown, where: string, report: Report): Box2d | undefined => {
+  if (!Array.isArray(value) || value.length !== 4 || !value.every(isNumber)) {
+    const count = Array.isArray(value) ? value.length : 0;
+    report.drop(where, Array.isArray(value) ? `box_2d has ${count} numbers instead of 4` : 'missing box_2d');
+    return undefined;
+  }
+
+  let [ymin, xmin, ymax, xmax] = value as number[];
+  if (value.some(v => v < 0 || v > 1000)) {
+    report.fix(where, 'box_2d outside 0-1000, clamped');
+    [ymin, xmin, ymax, xmax] = [ymin, xmin, ymax, xmax].map(v => clamp(v, 0, 1000));
+  }
+  if (ymin > ymax || xmin > xmax) {
+    report.fix(where, 'box_2d min/max inverted, swapped');
+    [ymin, ymax] = [Math.min(ymin, ymax), Math.max(ymin, ymax)];
+    [xmin, xmax] = [Math.min(xmin, xmax), Math.max(xmin, xmax)];
+  }
+  if (ymax - ymin < MIN_BOX_SIZE || xmax - xmin < MIN_BOX_SIZE) {
+    report.drop(where, 'box_2d has no area');
+    return undefined;
+  }
+  return [ymin, xmin, ymax, xmax];
+};
+
+const normalizeRuns = (value: unknown, text: string, where: string, report: Report): TextRun[] | undefined => {
+  if (!Array.isArray(value) || value.length === 0) return undefined;
+  const runs = value.filter(isObject).filter(r => typeof r.text === 'string').map(r => {
+    const run: TextRun = { text: r.text as string };
+    const color = optionalColor(r, 'color', where, report);
+    if (color) run.color = color;
+    if (typeof r.bold === 'boolean') run.bold = r.bold;
+    if (typeof r.italic === 'boolean') run.italic = r.italic;
+    if (typeof r.underline === 'boolean') run.underline = r.underline;
+    if (isNumber(r.fontSize) && r.fontSize > 0) run.fontSize = r.fontSize;
+    return run;
+  });
+  if (runs.map(r => r.text).join('') !== text) {
+    report.fix(where, 'runs do not add up to the text, styling ignored');
+    return undefined;
+  }
+  return runs;
+};
+
+const normalizeParagraphs = (value: unknown, text: string, where: string, report: Report): ParagraphFormat[] | undefined => {
+  if (!Array.isArray(value) || value.length === 0) return undefined;
+  const lineCount = text.split('\n').length;
+  if (value.length !== lineCount) {
+    report.fix(where, `${value.length} paragraph formats for ${lineCount} lines, list structure ignored`);
+    return undefined;
+  }
+  return value.map(p => {
+    const raw = isObject(p) ? p : {};
+    const format: ParagraphFormat = {
+      bullet: enumValue(raw, 'bullet', BULLETS, 'none', where, report),
+      indentLevel: isNumber(raw.indentLevel) ? clamp(Math.round(raw.indentLevel), 0, MAX_INDENT_LEVEL) : 0,
+    };
+    if (isNumber(raw.lineSpacing) && raw.lineSpacing > 0) format.lineSpacing = clamp(raw.lineSpacing, 0.5, 3);
+    return format;
+  });
+};
+
+const normalizeElement = (raw: unknown, index: number, report: Report): DetectedTextElement | undefined => {
+  const where = label('Text', index, isObject(raw) ? raw.text : undefined);
+  if (!isObject(raw)) {
+    report.drop(where, 'not an object');
+    return undefined;
+  }
+  if (typeof raw.text !== 'string' || !raw.text.trim()) {
+    report.drop(where, 'no text');
+    return undefined;
+  }
+  const box = normalizeBox(raw.box_2d, where, report);
+  if (!box) return undefined;
+
+  const text = raw.text;
+  let fontSize = raw.fontSize;
+  if (!isNumber(fontSize) || fontSize <= 0) {
+    // Same relative scale the model uses: line height on the 0-1000 slide height
+    fontSize = Math.round((box[2] - box[0]) / text.split('\n').length);
+    report.fix(where, `invalid fontSize, estimated ${fontSize} from the box`);
+  }
+
+  const element: DetectedTextElement = {
+    text,
+    box_2d: box,
+    textColor: requiredColor(raw, 'textColor', '#000000', where, report),
+    hasContainer: raw.hasContainer === true,
+    fontSize: fontSize as number,
+    fontFamily: enumValue(raw, 'fontFamily', FONT_FAMILIES, 'sans-serif', where, report),
+    fontWeight: enumValue(raw, 'fontWeight', ['bold', 'normal'], 'normal', where, report),
+    fontStyle: enumValue(raw, 'fontStyle', ['italic', 'normal'], 'normal', where, report),
+    isTitle: raw.isTitle === true,
+    alignment: enumValue(raw, 'alignment', ALIGNMENTS, 'left', where, report),
+  };
+
+  if (typeof raw.fontName === 'string') {
+    const fontName = raw.fontName.replace(FONT_NAME_UNSAFE, '').trim().slice(0, MAX_FONT_NAME_LENGTH);
+    if (fontName !== raw.fontName.trim()) report.fix(where, `unsafe characters removed from fontName "${raw.fontName}"`);
+    if (fontName) element.fontName = fontName;
+  }
+  if (typeof raw.language === 'string' && LANGUAGE_TAG.test(raw.language.trim())) element.language = raw.language.trim();
+
+  // The characters are the better witness, except that Han-only text cannot tell Chinese variants apart
+  const detectedScript = detectScript(text, element.language);
+  const modelScript = typeof raw.script === 'string' && (TEXT_SCRIPTS as string[]).includes(raw.script)
+    ? raw.script as TextScript
+    : undefined;
+  const compatible = modelScript === detectedScript || (!!modelScript && HAN_SCRIPTS.includes(modelScript) && HAN_SCRIPTS.includes(detectedScript) && detectedScript !== 'Jpan');
+  if (modelScript && !compatible) report.fix(where, `script "${modelScript}" does not match the text, using "${detectedScript}"`);
+  element.script = modelScript && compatible ? modelScript : detectedScript;
+
+  if (isNumber(raw.rotation)) {
+    // Any number of turns folds into -180..180; a sliver off horizontal is reading noise
+    const rotation = Math.round((((raw.rotation % 360) + 540) % 360 - 180) * 10) / 10;
+    if (Math.abs(rotation) >= MIN_ROTATION) element.rotation = rotation === -180 ? 180 : rotation;
+  }
+  if (raw.vertical === true) element.vertical = true;
+
+  const containerColor = optionalColor(raw, 'containerColor', where, report);
+  if (containerColor) element.containerColor = containerColor;
+  if (element.hasContainer && !containerColor) {
+    report.fix(where, 'container without a color, treated as plain text');
+    element.hasContainer = false;
+  }
+  if (isNumber(raw.containerOpacity)) element.containerOpacity = clamp(raw.containerOpacity, 0, 1);
+  const strokeColor = optionalColor(raw, 'strokeColor', where, report);
+  if (strokeColor) element.strokeColor = strokeColor;
+  const textShadowHex = optionalColor(raw, 'textShadowHex', where, report);
+  if (textShadowHex) element.textShadowHex = textShadowHex;
+
+  const runs = normalizeRuns(raw.runs, text, where, report);
+  if (runs) element.runs = runs;
+  const paragraphs = normalizeParagraphs(raw.paragraphs, text, where, report);
+  if (paragraphs) element.paragraphs = paragraphs;
+
+  return element;
+};
+
+const normalizeTable = (raw: unknown, index: number, report: Report): DetectedTable | undefined => {
+  const where = label('Table', index);
+  if (!isObject(raw) || !Array.isArray(raw.cells)) {
+    report.drop(where, 'no cells');
+    return undefined;
+  }
+  const box = normalizeBox(raw.box_2d, where, report);
+  if (!box) return undefined;
+
+  const cells: DetectedTableCell[] = raw.cells.filter(isObject)
+    .filter(c => isNumber(c.row) && isNumber(c.col) && c.row >= 0 && c.col >= 0)
+    .map(c => {
+      const cell: DetectedTableCell = { row: Math.round(c.row as number), col: Math.round(c.col as number), text: typeof c.text === 'string' ? c.text : '' };
+      if (isNumber(c.rowSpan) && c.rowSpan > 1) cell.rowSpan = Math.round(c.rowSpan);
+      if (isNumber(c.colSpan) && c.colSpan > 1) cell.colSpan = Math.round(c.colSpan);
+      if (typeof c.bold === 'boolean') cell.bold = c.bold;
+      const fillColor = optionalColor(c, 'fillColor', where, report);
+      if (fillColor) cell.fillColor = fillColor;
+      const textColor = optionalColor(c, 'textColor', where, report);
+      if (textColor) cell.textColor = textColor;
+      return cell;
+    });
+  if (cells.length < raw.cells.length) report.fix(where, `${raw.cells.length - cells.length} cells without a valid position removed`);
+  if (cells.length === 0) {
+    report.drop(where, 'no usable cells');
+    return undefined;
+  }
+
+  // The grid must hold every cell the model placed
+  const neededRows = Math.max(...cells.map(c => c.row + 1));
+  const neededCols = Math.max(...cells.map(c => c.col + 1));
+  const rows = isNumber(raw.rows) ? Math.round(raw.rows) : 0;
+  const cols = isNumber(raw.cols) ? Math.round(raw.cols) : 0;
+  if (rows < neededRows || cols < neededCols) {
+    report.fix(where, `grid ${rows}×${cols} too small for its cells, using ${Math.max(rows, neededRows)}×${Math.max(cols, neededCols)}`);
+  }
+
+  const table: DetectedTable = {
+    box_2d: box,
+    rows: Math.max(rows, neededRows),
+    cols: Math.max(cols, neededCols),
+    cells,
+    hasHeaderRow: raw.hasHeaderRow === true,
+    textColor: requiredColor(raw, 'textColor', '#000000', where, report),
+    fontSize: isNumber(raw.fontSize) && raw.fontSize > 0 ? raw.fontSize : 20,
+  };
+  if (Array.isArray(raw.colWidths) && raw.colWidths.length === table.cols && raw.colWidths.every(w => isNumber(w) && w > 0)) {
+    table.colWidths = raw.colWidths as number[];
+  } else if (raw.colWidths !== undefined && raw.colWidths !== null) {
+    report.fix(where, 'colWidths do not match the columns, using equal widths');
+  }
+  for (const key of ['headerFillColor', 'headerTextColor', 'fillColor', 'borderColor'] as const) {
+    const color = optionalColor(raw, key, where, report);
+    if (color) table[key] = color;
+  }
+  return table;
+};
+
+const normalizeShape = (raw: unknown, index: number, report: Report): DetectedShape | undefined => {
+  const where = label('Shape', index);
+  if (!isObject(raw) || typeof raw.kind !== 'string' || !(SHAPE_KINDS as string[]).includes(raw.kind)) {
+    report.drop(where, `unknown kind "${isObject(raw) ? String(raw.kind) : ''}"`);
+    return undefined;
+  }
+  const kind = raw.kind as DetectedShape['kind'];
+  const start = point(raw.start);
+  const end = point(raw.end);
+  const isLine = kind === 'line' || kind === 'arrow';
+
+  // Lines are defined by their end points; derive the box from them when the model's box is unusable
+  let box: Box2d | undefined;
+  if (isLine && start && end) {
+    box = [Math.min(start[0], end[0]), Math.min(start[1], end[1]), Math.max(start[0], end[0]), Math.max(start[1], end[1])];
+  } else {
+    box = normalizeBox(raw.box_2d, where, report);
+    if (!box) return undefined;
+  }
+
+  const shape: DetectedShape = { kind, box_2d: box };
+  if (isLine) {
+    if (start) shape.start = start;
+    if (end) shape.end = end;
+    if (kind === 'arrow') shape.arrowHeads = enumValue(raw, 'arrowHeads', ['end', 'start', 'both'], 'end', where, report);
+  }
+  const fillColor = optionalColor(raw, 'fillColor', where, report);
+  if (fillColor) shape.fillColor = fillColor;
+  const strokeColor = optionalColor(raw, 'strokeColor', where, report);
+  if (strokeColor) shape.strokeColor = strokeColor;
+  if (!fillColor && !strokeColor) {
+    report.drop(where, 'neither fill nor stroke');
+    return undefined;
+  }
+  if (isNumber(raw.strokeWidth) && raw.strokeWidth > 0) shape.strokeWidth = clamp(raw.strokeWidth, 0.5, 50);
+  if (raw.dashed === true) shape.dashed = true;
+  return shape;
+};
+
+const normalizeChart = (raw: unknown, index: number, report: Report): DetectedChart | undefined => {
+  const where = label('Chart', index, isObject(raw) ? raw.title : undefined);
+  if (!isObject(raw)) {
+    report.drop(where, 'not an object');
+    return undefined;
+  }
+  const box = normalizeBox(raw.box_2d, where, report);
+  if (!box) return undefined;
+
+  const categories = Array.isArray(raw.categories) ? raw.categories.map(c => String(c ?? '')) : [];
+  const series: ChartSeries[] = (Array.isArray(raw.series) ? raw.series : []).filter(isObject).map((s, i) => {
+    const values = Array.isArray(s.values) ? s.values : [];
+    const numbers = categories.map((_, j) => (isNumber(values[j]) ? values[j] as number : 0));
+    if (values.length !== categories.length || values.some(v => !isNumber(v))) {
+      report.fix(where, `series ${i + 1} values do not match the categories, padded with 0`);
+    }
+    const result: ChartSeries = { name: typeof s.name === 'string' ? s.name : `Series ${i + 1}`, values: numbers };
+    const color = optionalColor(s, 'color', where, report);
+    if (color) result.color = color;
+    return result;
+  });
+  if (categories.length === 0 || series.length === 0) {
+    report.drop(where, 'no categories or series');
+    return undefined;
+  }
+
+  const chart: DetectedChart = {
+    chartType: enumValue(raw, 'chartType', CHART_TYPES, 'column', where, report),
+    box_2d: box,
+    categories,
+    series,
+  };
+  if (typeof raw.title === 'string' && raw.title.trim()) chart.title = raw.title;
+  if (typeof raw.stacked === 'boolean') chart.stacked = raw.stacked;
+  if (typeof raw.showLegend === 'boolean') chart.showLegend = raw.showLegend;
+  if (typeof raw.showValues === 'boolean') chart.showValues = raw.showValues;
+  const textColor = optionalColor(raw, 'textColor', where, report);
+  if (textColor) chart.textColor = textColor;
+  return chart;
+};
+
+const normalizeList = <T,>(value: unknown, normalize: (raw: unknown, index: number, report: Report) => T | undefined, report: Report) => {
+  const items = Array.isArray(value) ? value : [];
+  const valid = items.map((raw, i) => normalize(raw, i, report)).filter((item): item is T => item !== undefined);
+  return { valid, dropped: items.length - valid.length, total: items.length };
+};
+
+/**
+ * Validates a parsed model answer and turns it into a SlideLayout that the
+ * exporters can rely on: bad values are clamped, swapped or defaulted, and
+ * unusable items dropped, each with a warning.
+ */
+export const normalizeLayout = (data: unknown): ValidationResult => {
+  const report = createReport();
+
+  // Older prompts returned a bare array of text elements
+  const raw: Raw = Array.isArray(data) ? { elements: data } : isObject(data) ? data : {};
+  if (!Array.isArray(raw.elements)) {
+    report.warnings.push('Answer has no list of text elements');
+    return { layout: { elements: [] }, warnings: report.warnings, severe: true };
+  }
+
+  const elements = normalizeList(raw.elements, normalizeElement, report);
+  const tables = normalizeList(raw.tables, normalizeTable, report);
+  const shapes = normalizeList(raw.shapes, normalizeShape, report);
+  const charts = normalizeList(raw.charts, normalizeChart, report);
+
+  const total = elements.total + tables.total + shapes.total + charts.total;
+  const dropped = elements.dropped + tables.dropped + shapes.dropped + charts.dropped;
+
+  return {
+    layout: { elements: elements.valid, tables: tables.valid, shapes: shapes.valid, charts: charts.valid },
+    warnings: report.warnings,
+    severe: total > 0 && dropped / total > SEVERE_DROP_RATIO,
+  };
+};
+
+/**
+ * Parses raw model text (tolerating code fences) and normalizes it.
+ * Unparsable text is a severe failure with an empty layout.
+ */
+export const parseLayoutResponse = (text: string): ValidationResult => {
+  // Sanitize JSON: remove markdown code blocks if present
+  const jsonText = text.replace(/```json/g, '').replace(/```/g, '').trim();
+  try {
+    return normalizeLayout(JSON.parse(jsonText));
+  } catch (error) {
+    return { layout: { elements: [] }, warnings: [`Answer is not valid JSON (${(error as Error).message})`], severe: true };
+  }
+};
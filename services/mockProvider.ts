@@ -0,0 +1,28 @@
+import { DetectedTextElement } from "../types";
+import type { VisionProvider } from "./visionProviders";
+import { DEFAULT_MOCK_LAYOUT, MOCK_LAYOUTS } from "../fixtures/mockLayouts";
+
+const fixtures: Record<string, DetectedTextElement[]> = { ...MOCK_LAYOUTS };
+
+// Lets tests and scripts supply a layout for a specific file name at runtime
+export const registerMockLayout = (fileName: string, elements: DetectedTextElement[]) => {
+  fixtures[fileName] = elements;
+};
+
+export const mockProvider: VisionProvider = {
+  id: 'mock',
+  label: 'Mock (fixtures)',
+  description: 'Returns canned layouts from fixtures. For CI and UI development.',
+  requiresApiKey: false,
+  supportsShapes: false,
+  supportsCharts: false,
+  supportsFontNames: false,
+  headless: true,
+  analyze: async (file) => {
+    const layout = fixtures[file.name] || DEFAULT_MOCK_LAYOUT;
+    // Deep copy so edits in the UI never mutate the fixture
+    return {
+      elements: layout.map(el => ({ ...el, box_2d: [...el.box_2d] as DetectedTextElement['box_2d'] })),
+    };
+  },
+};
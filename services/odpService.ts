@@ -0,0 +1,369 @@
+import JSZip from "jszip";
+import { DetectedShape, DetectedTable, DetectedTextElement, FontProfile, ProcessedImage, PptExportOptions, TextScript } from "../types";
+import type { Exporter } from "./exporters";
+import { cropImageRegion } from "./imageUtils";
+import { getStyledLines } from "./layoutUtils";
+import { resolveFontFace } from "./fontService";
+import { getElementLanguage, getElementScript, isEastAsianScript, isRtlScript } from "./scriptUtils";
+import {
+  cleanHex, DeckSize, fileToBase64, getBackgroundDataUrl, getFittedFontSize,
+  getTextFrame, ImageArea, planDecks, resolveLetterboxColor, fitImageToSlide,
+} from "./pptService";
+
+const ODP_MIME = 'application/vnd.oasis.opendocument.presentation';
+
+const NAMESPACES = [
+  'xmlns:office="urn:oasis:names:tc:opendocument:xmlns:office:1.0"',
+  'xmlns:style="urn:oasis:names:tc:opendocument:xmlns:style:1.0"',
+  'xmlns:text="urn:oasis:names:tc:opendocument:xmlns:text:1.0"',
+  'xmlns:table="urn:oasis:names:tc:opendocument:xmlns:table:1.0"',
+  'xmlns:draw="urn:oasis:names:tc:opendocument:xmlns:drawing:1.0"',
+  'xmlns:fo="urn:oasis:names:tc:opendocument:xmlns:xsl-fo-compatible:1.0"',
+  'xmlns:svg="urn:oasis:names:tc:opendocument:xmlns:svg-compatible:1.0"',
+  'xmlns:xlink="http://www.w3.org/1999/xlink"',
+  'xmlns:presentation="urn:oasis:names:tc:opendocument:xmlns:presentation:1.0"',
+].join(' ');
+
+const escapeXml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const inch = (value: number) => `${value.toFixed(4)}in`;
+const color = (hex?: string) => `#${cleanHex(hex)}`;
+
+const rectAttrs = ({ x, y, w, h }: ImageArea) =>
+  `svg:x="${inch(x)}" svg:y="${inch(y)}" svg:width="${inch(Math.max(0.01, w))}" svg:height="${inch(Math.max(0.01, h))}"`;
+
+/**
+ * Position attributes for a frame turned clockwise about its centre. ODF rotates
+ * counterclockwise about the top-left corner, then translates into place.
+ */
+const rotatedRectAttrs = ({ x, y, w, h }: ImageArea, rotation: number) => {
+  const angle = (-rotation * Math.PI) / 180;
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  // Where the frame's centre ends up after the rotation, relative to the corner
+  const cx = (w / 2) * cos + (h / 2) * sin;
+  const cy = -(w / 2) * sin + (h / 2) * cos;
+  const tx = x + w / 2 - cx;
+  const ty = y + h / 2 - cy;
+  return `svg:width="${inch(Math.max(0.01, w))}" svg:height="${inch(Math.max(0.01, h))}" draw:transform="rotate (${angle.toFixed(6)}) translate (${inch(tx)} ${inch(ty)})"`;
+};
+
+const boxToArea = (box: [number, number, number, number], area: ImageArea): ImageArea => {
+  const [ymin, xmin, ymax, xmax] = box;
+  return {
+    x: area.x + (xmin / 1000) * area.w,
+    y: area.y + (ymin / 1000) * area.h,
+    w: ((xmax - xmin) / 1000) * area.w,
+    h: ((ymax - ymin) / 1000) * area.h,
+  };
+};
+
+/**
+ * Collects automatic styles while the content is written. Identical property
+ * sets share one style so large decks do not emit thousands of duplicates.
+ */
+const createStyleRegistry = () => {
+  const names = new Map<string, string>();
+  const xml: string[] = [];
+
+  return {
+    get: (family: string, prefix: string, properties: string): string => {
+      const key = `${family}|${properties}`;
+      const existing = names.get(key);
+      if (existing) return existing;
+      const name = `${prefix}${names.size + 1}`;
+      names.set(key, name);
+      xml.push(`<style:style style:name="${name}" style:family="${family}">${properties}</style:style>`);
+      return name;
+    },
+    toXml: () => xml.join(''),
+  };
+};
+
+type StyleRegistry = ReturnType<typeof createStyleRegistry>;
+
+// Bullet and numbered list styles, five levels each
+const LIST_STYLES = ['L-bullet', 'L-number'].map(name => {
+  const levels = [1, 2, 3, 4, 5].map(level => {
+    const props = `<style:list-level-properties text:space-before="${(level - 1) * 0.3}in" text:min-label-width="0.25in"/>`;
+    return name === 'L-bullet'
+      ? `<text:list-level-style-bullet text:level="${level}" text:bullet-char="•">${props}</text:list-level-style-bullet>`
+      : `<text:list-level-style-number text:level="${level}" style:num-format="1" style:num-suffix=".">${props}</text:list-level-style-number>`;
+  }).join('');
+  return `<text:list-style style:name="${name}">${levels}</text:list-style>`;
+}).join('');
+
+const WESTERN_SCRIPTS: TextScript[] = ['Latn', 'Cyrl', 'Grek'];
+
+/**
+ * ODF keeps separate font, size and language attributes for Western, Asian
+ * (CJK) and complex (RTL, Indic, Thai) text; all three get the same face and
+ * size so every character renders alike, and the language goes to its script's group.
+ */
+const scriptTextAttrs = (fontFace: string, fontSize: number, bold: boolean, italic: boolean, script: TextScript, lang?: string) => {
+  const face = escapeXml(fontFace);
+  const size = `${fontSize.toFixed(1)}pt`;
+  const weight = bold ? 'bold' : 'normal';
+  const posture = italic ? 'italic' : 'normal';
+  let attrs = `fo:font-family="${face}" style:font-family-asian="${face}" style:font-family-complex="${face}"` +
+    ` fo:font-size="${size}" style:font-size-asian="${size}" style:font-size-complex="${size}"` +
+    ` fo:font-weight="${weight}" style:font-weight-asian="${weight}" style:font-weight-complex="${weight}"` +
+    ` fo:font-style="${posture}" style:font-style-asian="${posture}" style:font-style-complex="${posture}"`;
+  if (lang) {
+    const [language, country] = lang.split('-');
+    const [languageAttr, countryAttr] = isEastAsianScript(script)
+      ? ['style:language-asian', 'style:country-asian']
+      : WESTERN_SCRIPTS.includes(script) ? ['fo:language', 'fo:country'] : ['style:language-complex', 'style:country-complex'];
+    attrs += ` ${languageAttr}="${escapeXml(language.toLowerCase())}"`;
+    if (country && /^[A-Za-z]{2}$/.test(country)) attrs += ` ${countryAttr}="${country.toUpperCase()}"`;
+  }
+  return attrs;
+};
+
+const textElementXml = (el: DetectedTextElement, area: ImageArea, styles: StyleRegistry, fonts: FontProfile) => {
+  const frame = getTextFrame(el, area);
+  const fontFace = resolveFontFace(el, fonts);
+  const { fontSize } = getFittedFontSize(el, fontFace, frame, area, el.hasContainer ? 2 : 0);
+
+  let graphic = 'draw:stroke="none" draw:fill="none"';
+  if (el.hasContainer) {
+    const opacity = Math.round((el.containerOpacity ?? 1) * 100);
+    graphic = `draw:stroke="solid" svg:stroke-color="#888888" draw:fill="solid" draw:fill-color="${color(el.containerColor || 'FFFFFF')}" draw:opacity="${opacity}%"`;
+  }
+  const graphicStyle = styles.get('graphic', 'gr', `<style:graphic-properties ${graphic} draw:textarea-vertical-align="middle" draw:auto-grow-height="false" fo:wrap-option="wrap" fo:padding-top="0in" fo:padding-bottom="0in" fo:padding-left="${el.hasContainer ? '0.03in' : '0in'}" fo:padding-right="${el.hasContainer ? '0.03in' : '0in'}"${el.vertical ? ' style:writing-mode="tb-rl"' : ''}/>`);
+
+  const script = getElementScript(el);
+  const lang = getElementLanguage(el);
+  const writingMode = isRtlScript(script) ? ' style:writing-mode="rl-tb"' : '';
+  const lines = getStyledLines(el);
+
+  // Consecutive list lines of the same kind and level share one list so numbering continues
+  const body: string[] = [];
+  let openList: string | null = null;
+  let closeList = '';
+  lines.forEach(line => {
+    const format = line.format;
+    const paragraphStyle = styles.get('paragraph', 'P', `<style:paragraph-properties fo:text-align="${el.alignment}"${writingMode}${format?.lineSpacing ? ` fo:line-height="${Math.round(format.lineSpacing * 100)}%"` : ''}${format && format.bullet === 'none' && format.indentLevel > 0 ? ` fo:margin-left="${format.indentLevel * 0.3}in"` : ''}/>`);
+    const spans = line.pieces.map(piece => {
+      const textStyle = styles.get('text', 'T', `<style:text-properties ${scriptTextAttrs(fontFace, fontSize * piece.sizeScale, piece.bold, piece.italic, script, lang)} fo:color="${color(piece.color)}"${piece.underline ? ' style:text-underline-style="solid" style:text-underline-width="auto" style:text-underline-color="font-color"' : ''}/>`);
+      return `<text:span text:style-name="${textStyle}">${escapeXml(piece.text)}</text:span>`;
+    }).join('');
+    const paragraph = `<text:p text:style-name="${paragraphStyle}">${spans}</text:p>`;
+
+    const listKey = format && format.bullet !== 'none' ? `${format.bullet}:${format.indentLevel}` : null;
+    if (listKey !== openList) {
+      if (openList) body.push(closeList);
+      if (listKey && format) {
+        const depth = Math.min(5, format.indentLevel + 1);
+        const listStyle = format.bullet === 'number' ? 'L-number' : 'L-bullet';
+        body.push(`<text:list text:style-name="${listStyle}">` + '<text:list-item><text:list>'.repeat(depth - 1));
+        closeList = '</text:list></text:list-item>'.repeat(depth - 1) + '</text:list>';
+      }
+      openList = listKey;
+    }
+    body.push(listKey ? `<text:list-item>${paragraph}</text:list-item>` : paragraph);
+  });
+  if (openList) body.push(closeList);
+
+  const corner = el.hasContainer ? ` draw:corner-radius="${inch(Math.min(frame.w, frame.h) * 0.1)}"` : '';
+  return `<draw:rect draw:style-name="${graphicStyle}"${corner} ${el.rotation ? rotatedRectAttrs(frame, el.rotation) : rectAttrs(frame)}>${body.join('')}</draw:rect>`;
+};
+
+const shapeXml = (shape: DetectedShape, area: ImageArea, styles: StyleRegistry) => {
+  const toX = (v: number) => area.x + (v / 1000) * area.w;
+  const toY = (v: number) => area.y + (v / 1000) * area.h;
+  const strokeWidth = shape.strokeWidth ? Math.max(0.5, (shape.strokeWidth / 1000) * area.h * 72) : 1;
+  const dash = shape.dashed ? 'draw:stroke="dash" draw:stroke-dash="Dash"' : 'draw:stroke="solid"';
+
+  if (shape.kind === 'line' || shape.kind === 'arrow') {
+    const [y1, x1] = shape.start || [shape.box_2d[0], shape.box_2d[1]];
+    const [y2, x2] = shape.end || [shape.box_2d[2], shape.box_2d[3]];
+    const heads = shape.kind === 'arrow' ? shape.arrowHeads || 'end' : undefined;
+    const markers =
+      (heads === 'start' || heads === 'both' ? ' draw:marker-start="Arrow" draw:marker-start-width="0.12in"' : '') +
+      (heads === 'end' || heads === 'both' ? ' draw:marker-end="Arrow" draw:marker-end-width="0.12in"' : '');
+    const style = styles.get('graphic', 'gr', `<style:graphic-properties ${dash} svg:stroke-color="${color(shape.strokeColor || shape.fillColor)}" svg:stroke-width="${strokeWidth.toFixed(2)}pt"${markers}/>`);
+    return `<draw:line draw:style-name="${style}" svg:x1="${inch(toX(x1))}" svg:y1="${inch(toY(y1))}" svg:x2="${inch(toX(x2))}" svg:y2="${inch(toY(y2))}"/>`;
+  }
+
+  const stroke = shape.strokeColor
+    ? `${dash} svg:stroke-color="${color(shape.strokeColor)}" svg:stroke-width="${strokeWidth.toFixed(2)}pt"`
+    : 'draw:stroke="none"';
+  const fill = shape.fillColor ? `draw:fill="solid" draw:fill-color="${color(shape.fillColor)}"` : 'draw:fill="none"';
+  const style = styles.get('graphic', 'gr', `<style:graphic-properties ${stroke} ${fill}/>`);
+  const rect = boxToArea(shape.box_2d, area);
+
+  if (shape.kind === 'ellipse') {
+    return `<draw:ellipse draw:style-name="${style}" ${rectAttrs(rect)}/>`;
+  }
+  const corner = shape.kind === 'roundedRectangle' ? ` draw:corner-radius="${inch(Math.min(rect.w, rect.h) * 0.1)}"` : '';
+  return `<draw:rect draw:style-name="${style}"${corner} ${rectAttrs(rect)}/>`;
+};
+
+/**
+ * Writes a detected table as a native presentation table. Grid positions
+ * covered by a merged cell become covered cells, as ODF requires.
+ */
+const tableXml = (table: DetectedTable, area: ImageArea, styles: StyleRegistry, fonts: FontProfile) => {
+  const rows = Math.max(1, Math.round(table.rows));
+  const cols = Math.max(1, Math.round(table.cols));
+  const rect = boxToArea(table.box_2d, area);
+  const rowHeight = rect.h / rows;
+  const fontSize = Math.min(18, Math.max(8, rowHeight * 72 * 0.45));
+
+  const widthSum = table.colWidths?.reduce((a, b) => a + b, 0) || 0;
+  const colW = table.colWidths && table.colWidths.length === cols && widthSum > 0
+    ? table.colWidths.map(cw => (cw / widthSum) * rect.w)
+    : Array(cols).fill(rect.w / cols);
+
+  const columns = colW.map(w =>
+    `<table:table-column table:style-name="${styles.get('table-column', 'co', `<style:table-column-properties style:column-width="${inch(w)}"/>`)}"/>`
+  ).join('');
+  const rowStyle = styles.get('table-row', 'ro', `<style:table-row-properties style:row-height="${inch(rowHeight)}"/>`);
+  const border = table.borderColor ? `0.75pt solid ${color(table.borderColor)}` : 'none';
+
+  const cellAt = new Map(table.cells.map(c => [`${c.row}:${c.col}`, c]));
+  const covered = new Set<string>();
+  const rowXml: string[] = [];
+
+  for (let r = 0; r < rows; r++) {
+    const isHeader = table.hasHeaderRow && r === 0;
+    const cells: string[] = [];
+    for (let c = 0; c < cols; c++) {
+      if (covered.has(`${r}:${c}`)) {
+        cells.push('<table:covered-table-cell/>');
+        continue;
+      }
+      const cell = cellAt.get(`${r}:${c}`);
+      const rowspan = Math.min(rows - r, Math.max(1, cell?.rowSpan || 1));
+      const colspan = Math.min(cols - c, Math.max(1, cell?.colSpan || 1));
+      for (let dr = 0; dr < rowspan; dr++) {
+        for (let dc = 0; dc < colspan; dc++) {
+          if (dr > 0 || dc > 0) covered.add(`${r + dr}:${c + dc}`);
+        }
+      }
+
+      const fill = cell?.fillColor || (isHeader ? table.headerFillColor : table.fillColor);
+      const cellStyle = styles.get('table-cell', 'ce', `<style:graphic-properties draw:fill="${fill ? 'solid' : 'none'}"${fill ? ` draw:fill-color="${color(fill)}"` : ''} draw:textarea-vertical-align="middle"/><style:table-cell-properties fo:border="${border}"${fill ? ` fo:background-color="${color(fill)}"` : ''}/>`);
+      const textStyle = styles.get('text', 'T', `<style:text-properties fo:font-family="${escapeXml(fonts.families['sans-serif'].regular)}" fo:font-size="${fontSize.toFixed(1)}pt" fo:color="${color(cell?.textColor || (isHeader ? table.headerTextColor || table.textColor : table.textColor))}" fo:font-weight="${(cell?.bold ?? isHeader) ? 'bold' : 'normal'}"/>`);
+      const spans = (rowspan > 1 ? ` table:number-rows-spanned="${rowspan}"` : '') + (colspan > 1 ? ` table:number-columns-spanned="${colspan}"` : '');
+      const paragraphs = (cell?.text || '').split('\n')
+        .map(line => `<text:p><text:span text:style-name="${textStyle}">${escapeXml(line)}</text:span></text:p>`).join('');
+      cells.push(`<table:table-cell table:style-name="${cellStyle}" office:value-type="string"${spans}>${paragraphs}</table:table-cell>`);
+    }
+    rowXml.push(`<table:table-row table:style-name="${rowStyle}">${cells.join('')}</table:table-row>`);
+  }
+
+  return `<draw:frame ${rectAttrs(rect)}><table:table>${columns}${rowXml.join('')}</table:table></draw:frame>`;
+};
+
+const dataUrlToPicture = (dataUrl: string) => {
+  const [header, base64] = dataUrl.split(',');
+  const mime = header.match(/data:([^;]+)/)?.[1] || 'image/png';
+  const extension = mime === 'image/jpeg' ? 'jpg' : mime === 'image/svg+xml' ? 'svg' : mime.split('/')[1];
+  return { mime, base64, extension };
+};
+
+const stylesXml = (deck: DeckSize) => `<?xml version="1.0" encoding="UTF-8"?>
+<office:document-styles ${NAMESPACES} office:version="1.3">
+<office:styles>
+<draw:marker draw:name="Arrow" svg:viewBox="0 0 20 30" svg:d="M10 0l-10 30h20z"/>
+<draw:stroke-dash draw:name="Dash" draw:style="rect" draw:dots1="1" draw:dots1-length="300%" draw:distance="150%"/>
+</office:styles>
+<office:automatic-styles>
+<style:page-layout style:name="PM1"><style:page-layout-properties fo:margin-top="0in" fo:margin-bottom="0in" fo:margin-left="0in" fo:margin-right="0in" fo:page-width="${inch(deck.width)}" fo:page-height="${inch(deck.height)}" style:print-orientation="${deck.height > deck.width ? 'portrait' : 'landscape'}"/></style:page-layout>
+</office:automatic-styles>
+<office:master-styles><style:master-page style:name="Default" style:page-layout-name="PM1"/></office:master-styles>
+</office:document-styles>`;
+
+/**
+ * Builds one .odp with the same geometry as the PPTX deck. Charts are kept as
+ * a picture of the original region because ODF charts are separate embedded
+ * documents that Google Slides does not import.
+ */
+const buildOdp = async (images: ProcessedImage[], deck: DeckSize, options: PptExportOptions): Promise<Blob> => {
+  const zip = new JSZip();
+  // The mimetype entry must come first and be stored uncompressed
+  zip.file('mimetype', ODP_MIME, { compression: 'STORE' });
+
+  const styles = createStyleRegistry();
+  const manifest: string[] = [];
+  const pages: string[] = [];
+
+  const addPicture = (name: string, dataUrl: string) => {
+    const picture = dataUrlToPicture(dataUrl);
+    const path = `Pictures/${name}.${picture.extension}`;
+    zip.file(path, picture.base64, { base64: true, createFolders: false });
+    manifest.push(`<manifest:file-entry manifest:full-path="${path}" manifest:media-type="${picture.mime}"/>`);
+    return path;
+  };
+  const imageFrame = (path: string, rect: ImageArea) =>
+    `<draw:frame ${rectAttrs(rect)}><draw:image xlink:href="${path}" xlink:type="simple" xlink:show="embed" xlink:actuate="onLoad"/></draw:frame>`;
+
+  for (const [index, img] of images.entries()) {
+    const area = fitImageToSlide(img, deck);
+    const isLetterboxed = area.w < deck.width - 0.01 || area.h < deck.height - 0.01;
+    const shapes: string[] = [];
+    let pageStyle = styles.get('drawing-page', 'dp', '<style:drawing-page-properties draw:fill="none"/>');
+
+    try {
+      const background = await getBackgroundDataUrl(img);
+      if (isLetterboxed) {
+        const fill = await resolveLetterboxColor(background, options);
+        pageStyle = styles.get('drawing-page', 'dp', `<style:drawing-page-properties draw:fill="solid" draw:fill-color="#${fill}"/>`);
+      }
+      shapes.push(imageFrame(addPicture(`slide-${index + 1}`, background), area));
+    } catch (e) {
+      console.error("Failed to load background image", e);
+    }
+
+    (img.shapes || []).forEach(shape => shapes.push(shapeXml(shape, area, styles)));
+    (img.tables || []).forEach(table => shapes.push(tableXml(table, area, styles, options.fonts)));
+
+    if (img.charts && img.charts.length > 0) {
+      const source = await fileToBase64(img.file);
+      for (const [chartIndex, chart] of img.charts.entries()) {
+        const crop = await cropImageRegion(img.file, source, chart.box_2d).catch(err => {
+          console.warn(`Chart "${chart.title || 'untitled'}" on ${img.file.name} could not be cropped and is left out`, err);
+          return undefined;
+        });
+        if (crop) shapes.push(imageFrame(addPicture(`slide-${index + 1}-chart-${chartIndex + 1}`, crop), boxToArea(chart.box_2d, area)));
+      }
+    }
+
+    (img.elements || []).forEach(el => shapes.push(textElementXml(el, area, styles, options.fonts)));
+
+    pages.push(`<draw:page draw:name="Slide ${index + 1}" draw:style-name="${pageStyle}" draw:master-page-name="Default">${shapes.join('')}</draw:page>`);
+  }
+
+  zip.file('content.xml', `<?xml version="1.0" encoding="UTF-8"?>
+<office:document-content ${NAMESPACES} office:version="1.3">
+<office:automatic-styles>${styles.toXml()}${LIST_STYLES}</office:automatic-styles>
+<office:body><office:presentation>${pages.join('')}</office:presentation></office:body>
+</office:document-content>`);
+  zip.file('styles.xml', stylesXml(deck));
+  zip.file('META-INF/manifest.xml', `<?xml version="1.0" encoding="UTF-8"?>
+<manifest:manifest xmlns:manifest="urn:oasis:names:tc:opendocument:xmlns:manifest:1.0" manifest:version="1.3">
+<manifest:file-entry manifest:full-path="/" manifest:version="1.3" manifest:media-type="${ODP_MIME}"/>
+<manifest:file-entry manifest:full-path="content.xml" manifest:media-type="text/xml"/>
+<manifest:file-entry manifest:full-path="styles.xml" manifest:media-type="text/xml"/>
+${manifest.join('\n')}
+</manifest:manifest>`);
+
+  return zip.generateAsync({ type: 'blob', mimeType: ODP_MIME, compression: 'DEFLATE' });
+};
+
+export const odpExporter: Exporter = {
+  id: 'odp',
+  label: 'OpenDocument',
+  extension: 'odp',
+  description: 'OpenDocument Presentation for LibreOffice, Keynote and Google Slides',
+  export: async (images, options, baseName) => {
+    const files = [];
+    for (const plan of planDecks(images, options)) {
+      files.push({ fileName: `${baseName}${plan.suffix}.odp`, data: await buildOdp(plan.images, plan.deck, options) });
+    }
+    return files;
+  },
+};
@@ -0,0 +1,269 @@
+import { getDocument, GlobalWorkerOptions, Util, version } from "pdfjs-dist";
+import type { PDFPageProxy, TextItem, TextStyle } from "pdfjs-dist/types/src/display/api";
+import { DetectedTextElement, SlideLayout } from "../types";
+import { rgbToHex, sampleRegionColors } from "./imageUtils";
+import { detectParagraphs, estimateAlignment, markTitle, PixelRect } from "./layoutUtils";
+
+export const PDF_DPI_OPTIONS = [72, 150, 200, 300];
+export const DEFAULT_PDF_DPI = 150;
+const MAX_PAGE_PIXELS = 16_000_000; // Browsers refuse to allocate canvases much larger than this
+const MIN_TEXT_LAYER_CHARS = 3; // Fewer characters than this is a scanned page, not a real text layer
+
+// Worker script must match the library version exactly; PDFJS_WORKER_PATH points at a self-hosted copy
+GlobalWorkerOptions.workerSrc =
+  process.env.PDFJS_WORKER_PATH || `https://cdn.jsdelivr.net/npm/pdfjs-dist@${version}/build/pdf.worker.min.mjs`;
+
+export interface PdfPage {
+  file: File; // PNG rendering of the page
+  width: number;
+  height: number;
+  pageNumber: number; // 1-based
+  pageCount: number;
+  textLayout?: SlideLayout; // Present when the page carries real (selectable) text
+}
+
+export const isPdfFile = (file: File) =>
+  file.type === 'application/pdf' || file.name.toLowerCase().endsWith('.pdf');
+
+interface TextFragment extends PixelRect {
+  text: string;
+  fontName: string;
+  size: number; // Font height in pixels
+  baseline: number;
+}
+
+interface TextLine extends PixelRect {
+  fragments: TextFragment[];
+  size: number;
+  baseline: number;
+}
+
+// Places each text item on the rendered page in pixel coordinates
+const toFragments = (items: TextItem[], styles: Record<string, TextStyle>, page: PDFPageProxy, scale: number) => {
+  const viewport = page.getViewport({ scale });
+  const fragments: TextFragment[] = [];
+
+  for (const item of items) {
+    if (!item.str.trim()) continue;
+    const tx = Util.transform(viewport.transform, item.transform);
+    const size = Math.hypot(tx[2], tx[3]);
+    if (size <= 0) continue;
+    const style = styles[item.fontName];
+    const ascent = style?.ascent || 0.8;
+    const descent = style?.descent || -0.2;
+    const x0 = tx[4];
+    const baseline = tx[5];
+    fragments.push({
+      text: item.str,
+      fontName: item.fontName,
+      size,
+      baseline,
+      x0,
+      x1: x0 + item.width * scale,
+      y0: baseline - size * ascent,
+      y1: baseline - size * descent,
+    });
+  }
+
+  return fragments;
+};
+
+/**
+ * Joins fragments that share a baseline into lines. A large horizontal gap
+ * starts a new line so side-by-side columns are not merged.
+ */
+const groupLines = (fragments: TextFragment[]): TextLine[] => {
+  const sorted = [...fragments].sort((a, b) => a.baseline - b.baseline || a.x0 - b.x0);
+  const lines: TextLine[] = [];
+
+  for (const fragment of sorted) {
+    const line = lines.find(l =>
+      Math.abs(l.baseline - fragment.baseline) < l.size * 0.3 &&
+      fragment.x0 - l.x1 < l.size * 1.5 &&
+      fragment.x0 > l.x0 - l.size * 0.1
+    );
+    if (line) {
+      line.fragments.push(fragment);
+      line.x1 = Math.max(line.x1, fragment.x1);
+      line.y0 = Math.min(line.y0, fragment.y0);
+      line.y1 = Math.max(line.y1, fragment.y1);
+      line.size = Math.max(line.size, fragment.size);
+    } else {
+      lines.push({ ...fragment, fragments: [fragment] });
+    }
+  }
+
+  return lines;
+};
+
+const lineText = (line: TextLine) => {
+  const fragments = [...line.fragments].sort((a, b) => a.x0 - b.x0);
+  return fragments.reduce((text, fragment, i) => {
+    if (i === 0) return fragment.text;
+    const gap = fragment.x0 - fragments[i - 1].x1;
+    const needsSpace = gap > fragment.size * 0.15 && !/\s$/.test(text) && !/^\s/.test(fragment.text);
+    return text + (needsSpace ? ' ' : '') + fragment.text;
+  }, '').trim();
+};
+
+// Stacks lines of similar size that sit close together and overlap horizontally into paragraphs
+const groupBlocks = (lines: TextLine[]): TextLine[][] => {
+  const sorted = [...lines].sort((a, b) => a.y0 - b.y0 || a.x0 - b.x0);
+  const blocks: TextLine[][] = [];
+
+  for (const line of sorted) {
+    const block = blocks.find(b => {
+      const last = b[b.length - 1];
+      const sizeRatio = line.size / last.size;
+      const gap = line.y0 - last.y1;
+      const overlaps = line.x0 < Math.max(...b.map(l => l.x1)) && line.x1 > Math.min(...b.map(l => l.x0));
+      return sizeRatio > 0.8 && sizeRatio < 1.25 && gap > -last.size * 0.3 && gap < last.size * 0.8 && overlaps;
+    });
+    if (block) block.push(line);
+    else blocks.push([line]);
+  }
+
+  return blocks;
+};
+
+const fontFamilyOf = (style: TextStyle | undefined): DetectedTextElement['fontFamily'] => {
+  if (style?.fontFamily === 'monospace') return 'monospace';
+  if (style?.fontFamily === 'serif') return 'serif';
+  return 'sans-serif';
+};
+
+/**
+ * Real font names (e.g. "ABCDEF+Arial-BoldItalicMT") are only known once the
+ * page has been rendered and its fonts loaded.
+ */
+const fontNameOf = (page: PDFPageProxy, fontName: string): string => {
+  try {
+    return page.commonObjs.has(fontName) ? String(page.commonObjs.get(fontName)?.name || '') : '';
+  } catch {
+    return '';
+  }
+};
+
+// "ABCDEF+OpenSans-BoldItalic" -> "Open Sans"; subset prefix, style suffix and PostScript markers removed
+const familyNameOf = (realName: string): string | undefined => {
+  const family = realName
+    .replace(/^[A-Z]{6}\+/, '')
+    .split(/[-,]/)[0]
+    .replace(/(PSMT|PS|MT)$/, '')
+    .replace(/([a-z])([A-Z])/g, '$1 $2')
+    .trim();
+  return family || undefined;
+};
+
+const blockToElement = (
+  block: TextLine[],
+  page: PDFPageProxy,
+  styles: Record<string, TextStyle>,
+  pixels: ImageData
+): DetectedTextElement => {
+  const rect: PixelRect = {
+    x0: Math.min(...block.map(l => l.x0)),
+    y0: Math.min(...block.map(l => l.y0)),
+    x1: Math.max(...block.map(l => l.x1)),
+    y1: Math.max(...block.map(l => l.y1)),
+  };
+  const { text, paragraphs } = detectParagraphs(block.map(l => ({ text: lineText(l), bbox: l })));
+  const { background, foreground } = sampleRegionColors(pixels, rect);
+  const avgLineHeight = block.reduce((sum, l) => sum + (l.y1 - l.y0), 0) / block.length;
+  const fontName = block[0].fragments[0].fontName;
+  const realName = fontNameOf(page, fontName);
+  const { width, height } = pixels;
+
+  return {
+    text,
+    box_2d: [
+      Math.round((rect.y0 / height) * 1000),
+      Math.round((rect.x0 / width) * 1000),
+      Math.round((rect.y1 / height) * 1000),
+      Math.round((rect.x1 / width) * 1000),
+    ],
+    textColor: rgbToHex(foreground),
+    hasContainer: false,
+    containerColor: rgbToHex(background),
+    fontSize: Math.round((avgLineHeight / height) * 1000),
+    fontFamily: fontFamilyOf(styles[fontName]),
+    fontName: familyNameOf(realName),
+    fontWeight: /bold|black|heavy|semibold/i.test(realName) ? 'bold' : 'normal',
+    fontStyle: /italic|oblique/i.test(realName) ? 'italic' : 'normal',
+    isTitle: false,
+    alignment: estimateAlignment(block, width),
+    paragraphs,
+  };
+};
+
+const renderPage = async (page: PDFPageProxy, scale: number) => {
+  const viewport = page.getViewport({ scale });
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(viewport.width);
+  canvas.height = Math.round(viewport.height);
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error("Canvas 2D context unavailable");
+
+  // PDF pages have no background of their own
+  ctx.fillStyle = '#FFFFFF';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  await page.render({ canvas, canvasContext: ctx, viewport }).promise;
+
+  const blob = await new Promise<Blob>((resolve, reject) =>
+    canvas.toBlob(b => (b ? resolve(b) : reject(new Error("Failed to encode page"))), 'image/png')
+  );
+  return { blob, pixels: ctx.getImageData(0, 0, canvas.width, canvas.height) };
+};
+
+/**
+ * Renders every page of a PDF to a PNG at the given DPI, in page order.
+ * Pages with a real text layer also get their text blocks extracted directly,
+ * so they need no vision analysis. `onPage` fires as each page is ready.
+ */
+export const rasterizePdf = async (
+  file: File,
+  dpi = DEFAULT_PDF_DPI,
+  onPage?: (page: PdfPage) => void
+): Promise<PdfPage[]> => {
+  const pdf = await getDocument({ data: new Uint8Array(await file.arrayBuffer()) }).promise;
+  const baseName = file.name.replace(/\.pdf$/i, '');
+  const digits = String(pdf.numPages).length;
+  const pages: PdfPage[] = [];
+
+  try {
+    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+      const page = await pdf.getPage(pageNumber);
+      const base = page.getViewport({ scale: 1 });
+      const scale = Math.min(dpi / 72, Math.sqrt(MAX_PAGE_PIXELS / (base.width * base.height)));
+
+      const { blob, pixels } = await renderPage(page, scale);
+      const content = await page.getTextContent();
+      const items = content.items.filter((item): item is TextItem => 'str' in item);
+      const charCount = items.reduce((sum, item) => sum + item.str.trim().length, 0);
+
+      let textLayout: SlideLayout | undefined;
+      if (charCount >= MIN_TEXT_LAYER_CHARS) {
+        const lines = groupLines(toFragments(items, content.styles, page, scale));
+        const elements = groupBlocks(lines).map(block => blockToElement(block, page, content.styles, pixels));
+        markTitle(elements);
+        textLayout = { elements };
+      }
+
+      const result: PdfPage = {
+        file: new File([blob], `${baseName}-page-${String(pageNumber).padStart(digits, '0')}.png`, { type: 'image/png' }),
+        width: pixels.width,
+        height: pixels.height,
+        pageNumber,
+        pageCount: pdf.numPages,
+        textLayout,
+      };
+      pages.push(result);
+      onPage?.(result);
+      page.cleanup();
+    }
+  } finally {
+    await pdf.destroy();
+  }
+
+  return pages;
+};
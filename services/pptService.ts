@@ -1,32 +1,22 @@
 import PptxGenJS from "pptxgenjs";
-import { ProcessedImage, DetectedTextElement } from "../types";
+import { ProcessedImage, DetectedTextElement, DetectedTable, DetectedShape, DetectedChart, FontProfile, PptExportOptions, StandardLayout, TextRun } from "../types";
+import { averageEdgeColor, loadImageDataFromUrl, rgbToHex } from "./imageUtils";
+import { blobToDataUrl } from "./binaryUtils";
+import { getStyledLines, getTextThickness, unrotateFrame } from "./layoutUtils";
+import { estimateFontSize, fitFontSize } from "./textFit";
+import { getElementLanguage, getElementScript, isEastAsianScript, isRtlScript } from "./scriptUtils";
+import { DEFAULT_FONT_PROFILE, resolveFontFace } from "./fontService";
+import type { Exporter } from "./exporters";
 
 // Helper to convert File to Base64 Data URL (includes mime type header)
-const fileToBase64 = (file: File): Promise<string> => {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-    reader.readAsDataURL(file);
-    reader.onload = () => resolve(reader.result as string);
-    reader.onerror = (error) => reject(error);
-  });
-};
-
-const getFontMap = (family?: string): string => {
-  switch (family) {
-    case 'serif': return "Times New Roman";
-    case 'monospace': return "Courier New";
-    case 'handwriting': return "Segoe Print"; 
-    case 'sans-serif': 
-    default: return "Arial";
-  }
-};
+export const fileToBase64 = (file: File): Promise<string> => blobToDataUrl(file);
 
 /**
  * Cleans hex string and implements "Color Snapping"
  * Forces near-white colors to #FFFFFF and near-black to #000000
  * to fix common AI estimation errors due to lighting/compression.
  */
-const cleanHex = (hex?: string): string => {
+export const cleanHex = (hex?: string): string => {
   if (!hex) return "000000";
   
   let clean = hex.replace('#', '').trim();
@@ -59,7 +49,7 @@ const cleanHex = (hex?: string): string => {
  * Calculates a more accurate font size based on bounding box height and physics.
  * Returns font size in Points.
  */
-const calculateFontSize = (el: DetectedTextElement, boxHeightInInches: number): number => {
+export const calculateFontSize = (el: DetectedTextElement, boxHeightInInches: number): number => {
   // Convert box height to Points (1 inch = 72 points)
   const boxHeightPoints = boxHeightInInches * 72;
   
@@ -97,144 +87,591 @@ const calculateFontSize = (el: DetectedTextElement, boxHeightInInches: number):
   return size;
 };
 
-export const generatePPT = async (processedImages: ProcessedImage[]) => {
-  const pptx = new PptxGenJS();
+const MIN_FONT_SIZE = 6;
+// A model size hint far below the fitted size is more likely a misreading than a small font
+const MIN_HINT_RATIO = 0.5;
+
+export interface FittedFontSize {
+  fontSize: number; // Points
+  measured: boolean; // False when the size is the box-height estimate and needs renderer-side shrinking
+}
+
+/**
+ * Font size for a text frame from real font metrics: the largest size at which
+ * the text fits without wrapping, lowered to the model's fontSize hint when that
+ * is plausible (containers are larger than their text). Without a canvas to
+ * measure with, falls back to calculateFontSize.
+ */
+export const getFittedFontSize = (
+  el: DetectedTextElement,
+  fontFace: string,
+  frame: ImageArea,
+  area: ImageArea,
+  marginPt = 0
+): FittedFontSize => {
+  const lines = getStyledLines(el);
+  // Vertical lines run down the frame and stack from right to left
+  const width = frame.w * 72 - marginPt * 2;
+  const height = frame.h * 72 - marginPt * 2;
+  const inner = el.vertical ? { width: height, height: width } : { width, height };
+  const fitOptions = { eastAsian: isEastAsianScript(getElementScript(el)) };
+  const fitted = fitFontSize(lines, fontFace, inner, fitOptions);
+  if (fitted === undefined) {
+    // No metrics: the box-height estimate, capped so full-width text is not far too wide
+    const estimate = estimateFontSize(lines, inner, fitOptions);
+    const fontSize = calculateFontSize(el, el.vertical ? frame.w : frame.h);
+    return { fontSize: estimate ? Math.max(MIN_FONT_SIZE, Math.min(fontSize, estimate)) : fontSize, measured: false };
+  }
+
+  // fontSize is on the same 0-1000 scale as box_2d, relative to the image height
+  const hint = el.fontSize > 0 ? (el.fontSize / 1000) * area.h * 72 : undefined;
+  const size = hint && hint < fitted && hint >= fitted * MIN_HINT_RATIO ? hint : fitted;
+  return { fontSize: Math.max(MIN_FONT_SIZE, Math.floor(size * 2) / 2), measured: true };
+};
+
+/**
+ * Converts styled runs into pptxgenjs text objects for a single multi-run addText call.
+ * Unset run properties inherit from the element; run sizes are scaled relative to
+ * the element's own fontSize so the fitted size stays the reference.
+ */
+const buildTextRuns = (el: DetectedTextElement, runs: TextRun[], baseFontSize: number): PptxGenJS.TextProps[] => {
+  return runs
+    .filter(run => run.text.length > 0)
+    .map(run => {
+      const options: PptxGenJS.TextPropsOptions = {
+        color: cleanHex(run.color || el.textColor),
+        bold: run.bold ?? el.fontWeight === 'bold',
+        italic: run.italic ?? el.fontStyle === 'italic',
+      };
+      if (run.underline) options.underline = { style: 'sng' };
+      if (run.fontSize && el.fontSize > 0 && run.fontSize !== el.fontSize) {
+        options.fontSize = Math.max(6, baseFontSize * (run.fontSize / el.fontSize));
+      }
+      return { text: run.text, options };
+    });
+};
+
+/**
+ * Splits the element's content into lines of text objects, applying paragraph
+ * structure (bullets, indent, spacing) when present. pptxgenjs starts a new
+ * paragraph at every bullet, so the bullet is only set on a line's first piece.
+ */
+const buildParagraphs = (el: DetectedTextElement, baseFontSize: number): PptxGenJS.TextProps[] => {
+  const pieces = el.runs && el.runs.length > 0
+    ? buildTextRuns(el, el.runs, baseFontSize)
+    : [{ text: el.text, options: {} }];
+
+  // Break pieces at newlines so each line can carry its own paragraph options
+  const lines: PptxGenJS.TextProps[][] = [[]];
+  pieces.forEach(piece => {
+    (piece.text || '').split('\n').forEach((part, idx) => {
+      if (idx > 0) lines.push([]);
+      if (part.length > 0) lines[lines.length - 1].push({ text: part, options: { ...piece.options } });
+    });
+  });
+
+  return lines.flatMap((line, lineIdx) => {
+    if (line.length === 0) line.push({ text: '', options: {} });
+    const format = el.paragraphs?.[lineIdx];
+
+    line.forEach((piece, pieceIdx) => {
+      const options = piece.options!;
+      if (format) {
+        if (format.indentLevel > 0) options.indentLevel = format.indentLevel;
+        if (format.lineSpacing) options.lineSpacingMultiple = format.lineSpacing;
+        if (pieceIdx === 0 && format.bullet === 'bullet') options.bullet = true;
+        if (pieceIdx === 0 && format.bullet === 'number') options.bullet = { type: 'number' };
+      }
+      if (pieceIdx === line.length - 1 && lineIdx < lines.length - 1) options.breakLine = true;
+    });
+    return line;
+  });
+};
+
+export const DEFAULT_EXPORT_OPTIONS: PptExportOptions = {
+  strategy: 'match-first',
+  standardLayout: '16:9',
+  letterboxColor: '000000',
+  fonts: DEFAULT_FONT_PROFILE,
+};
+
+// Slide sizes in inches for the 'standard' strategy (landscape; A4 flips for portrait decks)
+const STANDARD_LAYOUTS: Record<StandardLayout, { width: number; height: number }> = {
+  '16:9': { width: 13.333, height: 7.5 },
+  '4:3': { width: 10, height: 7.5 },
+  'A4': { width: 11.69, height: 8.27 },
+};
+
+const SLIDE_WIDTH_IN = 10;
+
+// Rectangle (in inches) that the source image occupies on its slide
+export interface ImageArea {
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+}
+
+export interface DeckSize {
+  width: number;
+  height: number;
+}
+
+const isPortrait = (img: ProcessedImage) => img.height > img.width;
+
+/**
+ * Fits an image into the slide preserving its aspect ratio, centred.
+ * Slides with the same ratio as the deck get the full slide; others are letterboxed.
+ */
+export const fitImageToSlide = (img: ProcessedImage, deck: DeckSize): ImageArea => {
+  const scale = Math.min(deck.width / img.width, deck.height / img.height);
+  const w = img.width * scale;
+  const h = img.height * scale;
+  return { x: (deck.width - w) / 2, y: (deck.height - h) / 2, w, h };
+};
+
+const deckSizeFromImage = (img: ProcessedImage): DeckSize => ({
+  width: SLIDE_WIDTH_IN,
+  height: SLIDE_WIDTH_IN / (img.width / img.height),
+});
+
+const resolveDeckSize = (images: ProcessedImage[], options: PptExportOptions): DeckSize => {
+  if (options.strategy !== 'standard') return deckSizeFromImage(images[0]);
+
+  const size = STANDARD_LAYOUTS[options.standardLayout];
+  // A4 is used in whichever orientation most slides have
+  if (options.standardLayout === 'A4' && images.filter(isPortrait).length > images.length / 2) {
+    return { width: size.height, height: size.width };
+  }
+  return size;
+};
+
+export const resolveLetterboxColor = async (background: string, options: PptExportOptions): Promise<string> => {
+  if (options.letterboxColor !== 'auto') return cleanHex(options.letterboxColor);
+  try {
+    return cleanHex(rgbToHex(averageEdgeColor(await loadImageDataFromUrl(background))));
+  } catch (e) {
+    console.warn("Could not sample letterbox color, using black", e);
+    return "000000";
+  }
+};
+
+// The cleaned background when there is one, otherwise the source image itself
+export const getBackgroundDataUrl = (img: ProcessedImage): Promise<string> =>
+  img.cleanBackgroundBase64 ? Promise.resolve(img.cleanBackgroundBase64) : fileToBase64(img.file);
+
+// Only analysed slides with known dimensions can be laid out
+export const getExportableImages = (images: ProcessedImage[]) =>
+  images.filter(i => i.status === 'completed' && i.elements && i.width && i.height);
+
+export interface DeckPlan {
+  suffix: string; // Appended to the file name when a strategy produces several decks
+  images: ProcessedImage[];
+  deck: DeckSize;
+}
+
+/**
+ * Applies the layout strategy: one deck for most strategies, or one per
+ * orientation (each sized from its own first slide) for 'split-orientation'.
+ */
+export const planDecks = (images: ProcessedImage[], options: PptExportOptions): DeckPlan[] => {
+  if (options.strategy !== 'split-orientation') {
+    return [{ suffix: '', images, deck: resolveDeckSize(images, options) }];
+  }
+
+  const groups = [
+    { name: 'landscape', images: images.filter(i => !isPortrait(i)) },
+    { name: 'portrait', images: images.filter(isPortrait) },
+  ].filter(g => g.images.length > 0);
+
+  return groups.map(group => ({
+    suffix: groups.length > 1 ? `-${group.name}` : '',
+    images: group.images,
+    deck: deckSizeFromImage(group.images[0]),
+  }));
+};
+
+/**
+ * Slide rectangle (inches) for a text element, before its rotation. Containers
+ * are inflated so the shape surrounds the text; raw text gets a little room to
+ * avoid clipping.
+ */
+export const getTextFrame = (el: DetectedTextElement, area: ImageArea): ImageArea => {
+  const [ymin, xmin, ymax, xmax] = el.box_2d;
+
+  // box_2d is relative to the source image, which may not fill the whole slide
+  let x = area.x + (xmin / 1000) * area.w;
+  let y = area.y + (ymin / 1000) * area.h;
+  let w = ((xmax - xmin) / 1000) * area.w;
+  let h = ((ymax - ymin) / 1000) * area.h;
+  if (el.rotation) {
+    // The frame is drawn unrotated and turned about its centre by the exporter
+    ({ x, y, w, h } = unrotateFrame({ x, y, w, h }, el.rotation, (getTextThickness(el) / 1000) * area.h));
+  }
+
+  if (el.hasContainer) {
+    // INFLATE CONTAINER
+    // Reduced padding as requested: 5% instead of 15%
+    const padX = Math.max(0.05, w * 0.05); 
+    const padY = Math.max(0.02, h * 0.05);
+    
+    x = x - padX;
+    y = y - padY;
+    w = w + (padX * 2);
+    h = h + (padY * 2);
+  } else {
+    // RAW TEXT
+    // Minimal inflation to prevent clipping
+    w = w * 1.05;
+    h = h * 1.05;
+  }
+
+  return { x, y, w, h };
+};
+
+const addTextElement = (slide: PptxGenJS.Slide, el: DetectedTextElement, area: ImageArea, fonts: FontProfile) => {
+  const { x, y, w, h } = getTextFrame(el, area);
+  const fontFace = resolveFontFace(el, fonts);
+
+  // 4. CONDITIONAL STYLING
+  
+  let fillProps: any = undefined; // Default transparency
+  let lineProps: any = undefined; // Default no border
+  let shadowProps: any = undefined;
   
-  const validImages = processedImages.filter(i => i.status === 'completed' && i.width && i.height);
-  if (validImages.length === 0) return;
+  if (el.hasContainer) {
+    // Apply detected background color
+    // If containerOpacity is undefined, assume solid (100 -> 0% transparency)
+    // pptxgenjs transparency is 0-100 where 0 is opaque.
+    const opacity = el.containerOpacity !== undefined ? (1 - el.containerOpacity) * 100 : 0;
+    
+    fillProps = { 
+        color: cleanHex(el.containerColor) || "FFFFFF",
+        transparency: opacity
+    };
+    
+    // Add a nice soft shadow for containers to separate from background
+    shadowProps = { type: 'outer', color: '000000', opacity: 0.3, blur: 3, offset: 2 };
+  }
 
-  // 1. DYNAMIC LAYOUT STRATEGY
-  const firstImg = validImages[0];
-  const layoutName = "CUSTOM_LAYOUT";
+  const textColor = cleanHex(el.textColor);
+  
+  // Fit the text to the FINAL frame using the mapped font's metrics
+  const margin = el.hasContainer ? 2 : 0;
+  const { fontSize: computedFontSize, measured } = getFittedFontSize(el, fontFace, { x, y, w, h }, area, margin);
+
+  const textOptions: any = {
+    x: x,
+    y: y,
+    w: w,
+    h: h,
+    fontSize: computedFontSize,
+    color: textColor,
+    align: el.alignment,
+    fontFace,
+    valign: "middle",
+    margin, // Reduced margin from 5 to 2
+    wrap: true,
+    // Estimated sizes may still overflow; let PowerPoint shrink them on open
+    fit: measured ? 'none' : 'shrink',
+    // Style Mapping
+    bold: el.fontWeight === 'bold',
+    italic: el.fontStyle === 'italic',
+  };
+
+  // PowerPoint turns the frame about its centre, clockwise from 0 to 360
+  if (el.rotation) textOptions.rotate = (el.rotation + 360) % 360;
+  if (el.vertical) textOptions.vert = 'eaVert';
+
+  // Apply Shape/Container Styles
+  if (el.hasContainer) {
+    textOptions.shape = 'roundRect';
+    textOptions.rectRadius = 0.1; // mild roundness
+    textOptions.fill = fillProps;
+    textOptions.line = { color: "888888", width: 0.5, transparency: 50 }; // Subtle border
+    textOptions.shadow = shadowProps;
+  }
+
+  // Text Outline/Stroke (if detected)
+  if (el.strokeColor) {
+    textOptions.outline = { color: cleanHex(el.strokeColor), size: 0.75 };
+  }
   
-  const SLIDE_WIDTH_IN = 10;
-  const aspectRatio = firstImg.width / firstImg.height;
-  const SLIDE_HEIGHT_IN = SLIDE_WIDTH_IN / aspectRatio;
+  // Text Shadow (Drop Shadow)
+  if (el.textShadowHex) {
+      // pptxgenjs doesn't support text-specific shadow easily within addText same as shape shadow
+      // But we can approximate roughly or rely on the container shadow. 
+      // For now, we omit text-specific shadow to prevent conflict with container shadow.
+  }
+
+  // Language drives spell checking and line breaking; RTL scripts also need paragraph direction
+  const script = getElementScript(el);
+  const lang = getElementLanguage(el);
+  if (lang) textOptions.lang = lang;
+  if (isRtlScript(script)) textOptions.rtlMode = true;
+
+  // Mixed styling or list structure within the block becomes a multi-run text body
+  const content = (el.runs && el.runs.length > 0) || (el.paragraphs && el.paragraphs.length > 0)
+    ? buildParagraphs(el, computedFontSize)
+    : el.text;
+  if (Array.isArray(content)) {
+    // pptxgenjs reads paragraph direction from the runs, not from the shape options
+    content.forEach(piece => {
+      if (lang) piece.options!.lang = lang;
+      if (textOptions.rtlMode) piece.options!.rtlMode = true;
+    });
+  }
+
+  slide.addText(content, textOptions);
+};
+
+/**
+ * Emits a diagram primitive as a native shape. Lines and arrows are drawn from
+ * their start/end points: pptxgenjs lines run from the top-left to the bottom-right
+ * of their box, so the direction is expressed with flipH/flipV.
+ */
+const addShapeElement = (slide: PptxGenJS.Slide, shape: DetectedShape, area: ImageArea) => {
+  const toX = (v: number) => area.x + (v / 1000) * area.w;
+  const toY = (v: number) => area.y + (v / 1000) * area.h;
+
+  const lineWidth = shape.strokeWidth ? Math.max(0.5, (shape.strokeWidth / 1000) * area.h * 72) : 1;
+  const line: PptxGenJS.ShapeLineProps = shape.strokeColor
+    ? { color: cleanHex(shape.strokeColor), width: lineWidth, dashType: shape.dashed ? 'dash' : 'solid' }
+    : { type: 'none' };
+
+  if (shape.kind === 'line' || shape.kind === 'arrow') {
+    const [y1, x1] = shape.start || [shape.box_2d[0], shape.box_2d[1]];
+    const [y2, x2] = shape.end || [shape.box_2d[2], shape.box_2d[3]];
+    const heads = shape.kind === 'arrow' ? shape.arrowHeads || 'end' : undefined;
+
+    slide.addShape('line', {
+      x: toX(Math.min(x1, x2)),
+      y: toY(Math.min(y1, y2)),
+      w: Math.abs(toX(x2) - toX(x1)),
+      h: Math.abs(toY(y2) - toY(y1)),
+      flipH: x2 < x1,
+      flipV: y2 < y1,
+      line: {
+        color: cleanHex(shape.strokeColor || shape.fillColor),
+        width: lineWidth,
+        dashType: shape.dashed ? 'dash' : 'solid',
+        beginArrowType: heads === 'start' || heads === 'both' ? 'triangle' : undefined,
+        endArrowType: heads === 'end' || heads === 'both' ? 'triangle' : undefined,
+      },
+    });
+    return;
+  }
+
+  const [ymin, xmin, ymax, xmax] = shape.box_2d;
+  const shapeName = shape.kind === 'ellipse' ? 'ellipse' : shape.kind === 'roundedRectangle' ? 'roundRect' : 'rect';
+
+  slide.addShape(shapeName, {
+    x: toX(xmin),
+    y: toY(ymin),
+    w: toX(xmax) - toX(xmin),
+    h: toY(ymax) - toY(ymin),
+    fill: shape.fillColor ? { color: cleanHex(shape.fillColor) } : { type: 'none' },
+    line,
+    rectRadius: shape.kind === 'roundedRectangle' ? 0.1 : undefined,
+  });
+};
+
+/**
+ * Emits a detected chart as a native, editable chart at its box.
+ * Series are padded or trimmed to the category count so a slightly
+ * inconsistent model answer still produces a valid chart.
+ */
+const addChartElement = (slide: PptxGenJS.Slide, chart: DetectedChart, area: ImageArea) => {
+  if (chart.categories.length === 0 || chart.series.length === 0) return;
+
+  const [ymin, xmin, ymax, xmax] = chart.box_2d;
+  const isPie = chart.chartType === 'pie' || chart.chartType === 'doughnut';
+  // Pie charts only show one series
+  const series = isPie ? chart.series.slice(0, 1) : chart.series;
+
+  const data = series.map(s => ({
+    name: s.name,
+    labels: chart.categories,
+    values: chart.categories.map((_, i) => Number(s.values[i]) || 0),
+  }));
+
+  const type: PptxGenJS.CHART_NAME =
+    chart.chartType === 'bar' || chart.chartType === 'column' ? 'bar' : chart.chartType;
+
+  const options: PptxGenJS.IChartOpts = {
+    x: area.x + (xmin / 1000) * area.w,
+    y: area.y + (ymin / 1000) * area.h,
+    w: ((xmax - xmin) / 1000) * area.w,
+    h: ((ymax - ymin) / 1000) * area.h,
+    showLegend: chart.showLegend ?? (isPie || series.length > 1),
+    legendPos: 'b',
+    showValue: !!chart.showValues,
+  };
+
+  if (chart.title) {
+    options.showTitle = true;
+    options.title = chart.title;
+  }
+  if (chart.chartType === 'bar' || chart.chartType === 'column') {
+    options.barDir = chart.chartType === 'bar' ? 'bar' : 'col';
+    if (chart.stacked) options.barGrouping = 'stacked';
+  }
+  const colors = series.map(s => s.color).filter((c): c is string => !!c);
+  if (!isPie && colors.length === series.length) {
+    options.chartColors = colors.map(c => cleanHex(c));
+  }
+  if (chart.textColor) {
+    const color = cleanHex(chart.textColor);
+    options.catAxisLabelColor = color;
+    options.valAxisLabelColor = color;
+    options.legendColor = color;
+    options.titleColor = color;
+  }
+
+  slide.addChart(type, data, options);
+};
+
+/**
+ * Rebuilds a detected table as a native PowerPoint table.
+ * Cells are laid out row by row; grid positions covered by a merged cell are
+ * skipped and positions the model left out become empty cells.
+ */
+const addTableElement = (slide: PptxGenJS.Slide, table: DetectedTable, area: ImageArea, fonts: FontProfile) => {
+  const rows = Math.max(1, Math.round(table.rows));
+  const cols = Math.max(1, Math.round(table.cols));
+  const [ymin, xmin, ymax, xmax] = table.box_2d;
 
-  pptx.defineLayout({ name: layoutName, width: SLIDE_WIDTH_IN, height: SLIDE_HEIGHT_IN });
+  const x = area.x + (xmin / 1000) * area.w;
+  const y = area.y + (ymin / 1000) * area.h;
+  const w = ((xmax - xmin) / 1000) * area.w;
+  const h = ((ymax - ymin) / 1000) * area.h;
+  const rowHeight = h / rows;
+
+  // Column widths in inches; fall back to equal columns when widths are missing or inconsistent
+  const widthSum = table.colWidths?.reduce((a, b) => a + b, 0) || 0;
+  const colW = table.colWidths && table.colWidths.length === cols && widthSum > 0
+    ? table.colWidths.map(cw => (cw / widthSum) * w)
+    : Array(cols).fill(w / cols);
+
+  const fontSize = Math.min(18, Math.max(8, rowHeight * 72 * 0.45));
+  const border: PptxGenJS.BorderProps = table.borderColor
+    ? { type: 'solid', pt: 0.75, color: cleanHex(table.borderColor) }
+    : { type: 'none' };
+
+  const cellAt = new Map(table.cells.map(c => [`${c.row}:${c.col}`, c]));
+  const covered = new Set<string>();
+  const tableRows: PptxGenJS.TableRow[] = [];
+
+  for (let r = 0; r < rows; r++) {
+    const row: PptxGenJS.TableCell[] = [];
+    const isHeader = table.hasHeaderRow && r === 0;
+
+    for (let c = 0; c < cols; c++) {
+      if (covered.has(`${r}:${c}`)) continue;
+      const cell = cellAt.get(`${r}:${c}`);
+      const rowspan = Math.min(rows - r, Math.max(1, cell?.rowSpan || 1));
+      const colspan = Math.min(cols - c, Math.max(1, cell?.colSpan || 1));
+
+      for (let dr = 0; dr < rowspan; dr++) {
+        for (let dc = 0; dc < colspan; dc++) {
+          if (dr > 0 || dc > 0) covered.add(`${r + dr}:${c + dc}`);
+        }
+      }
+
+      const fill = cell?.fillColor || (isHeader ? table.headerFillColor : table.fillColor);
+      const options: PptxGenJS.TableCellProps = {
+        color: cleanHex(cell?.textColor || (isHeader ? table.headerTextColor || table.textColor : table.textColor)),
+        bold: cell?.bold ?? isHeader,
+        border: [border, border, border, border],
+      };
+      if (fill) options.fill = { color: cleanHex(fill) };
+      if (rowspan > 1) options.rowspan = rowspan;
+      if (colspan > 1) options.colspan = colspan;
+
+      row.push({ text: cell?.text || '', options });
+    }
+    tableRows.push(row);
+  }
+
+  slide.addTable(tableRows, {
+    x,
+    y,
+    w,
+    colW,
+    rowH: Array(rows).fill(rowHeight),
+    fontSize,
+    fontFace: fonts.families['sans-serif'].regular,
+    valign: 'middle',
+    margin: 2,
+    autoPage: false,
+  });
+};
+
+/**
+ * Builds one deck in which every slide has the given size.
+ * Each image is placed with its own aspect ratio, so mixed decks are letterboxed
+ * instead of stretched, and text boxes follow the image area.
+ */
+const buildDeck = async (images: ProcessedImage[], deck: DeckSize, options: PptExportOptions): Promise<PptxGenJS> => {
+  const pptx = new PptxGenJS();
+  const layoutName = "CUSTOM_LAYOUT";
+
+  pptx.defineLayout({ name: layoutName, width: deck.width, height: deck.height });
   pptx.layout = layoutName;
 
-  for (const imgData of validImages) {
+  for (const imgData of images) {
     if (!imgData.elements) continue;
 
     const slide = pptx.addSlide();
+    const area = fitImageToSlide(imgData, deck);
+    const isLetterboxed = area.w < deck.width - 0.01 || area.h < deck.height - 0.01;
 
     try {
-      let base64Background = "";
-      if (imgData.cleanBackgroundBase64) {
-        base64Background = imgData.cleanBackgroundBase64;
-      } else {
-        base64Background = await fileToBase64(imgData.file);
+      const base64Background = await getBackgroundDataUrl(imgData);
+
+      if (isLetterboxed) {
+        slide.background = { color: await resolveLetterboxColor(base64Background, options) };
       }
       
-      // 2. BACKGROUND STRETCHING
+      // 2. BACKGROUND PLACEMENT (exact image area, never stretched)
       slide.addImage({ 
         data: base64Background, 
-        x: 0, 
-        y: 0, 
-        w: '100%', 
-        h: '100%',
-        sizing: { type: 'contain', w: SLIDE_WIDTH_IN, h: SLIDE_HEIGHT_IN }
+        x: area.x, 
+        y: area.y, 
+        w: area.w, 
+        h: area.h,
       });
 
     } catch (e) {
       console.error("Failed to load background image", e);
     }
 
-    // 3. OVERLAY TEXT BOXES
-    imgData.elements.forEach((el) => {
-      const [ymin, xmin, ymax, xmax] = el.box_2d;
-      
-      let x = (xmin / 1000) * SLIDE_WIDTH_IN;
-      let y = (ymin / 1000) * SLIDE_HEIGHT_IN;
-      let w = ((xmax - xmin) / 1000) * SLIDE_WIDTH_IN;
-      let h = ((ymax - ymin) / 1000) * SLIDE_HEIGHT_IN;
-
-      // 4. CONDITIONAL INFLATION & STYLING
-      
-      let fillProps: any = undefined; // Default transparency
-      let lineProps: any = undefined; // Default no border
-      let shadowProps: any = undefined;
-      
-      if (el.hasContainer) {
-        // INFLATE CONTAINER
-        // Reduced padding as requested: 5% instead of 15%
-        const padX = Math.max(0.05, w * 0.05); 
-        const padY = Math.max(0.02, h * 0.05);
-        
-        x = x - padX;
-        y = y - padY;
-        w = w + (padX * 2);
-        h = h + (padY * 2);
-
-        // Apply detected background color
-        // If containerOpacity is undefined, assume solid (100 -> 0% transparency)
-        // pptxgenjs transparency is 0-100 where 0 is opaque.
-        const opacity = el.containerOpacity !== undefined ? (1 - el.containerOpacity) * 100 : 0;
-        
-        fillProps = { 
-            color: cleanHex(el.containerColor) || "FFFFFF",
-            transparency: opacity
-        };
-        
-        // Add a nice soft shadow for containers to separate from background
-        shadowProps = { type: 'outer', color: '000000', opacity: 0.3, blur: 3, offset: 2 };
-      } else {
-        // RAW TEXT
-        // Minimal inflation to prevent clipping
-        w = w * 1.05;
-        h = h * 1.05;
-      }
-
-      const textColor = cleanHex(el.textColor);
-      
-      // Calculate font size relative to the FINAL box height (h)
-      const computedFontSize = calculateFontSize(el, h);
-
-      // Explicitly calculate font size from 0-1000 scale if provided by AI as a sanity check
-      // const directFontSize = el.fontSize ? (el.fontSize / 1000) * SLIDE_HEIGHT_IN * 72 : 0;
-
-      const textOptions: any = {
-        x: x,
-        y: y,
-        w: w,
-        h: h,
-        fontSize: computedFontSize,
-        color: textColor,
-        align: el.alignment,
-        fontFace: getFontMap(el.fontFamily), 
-        valign: "middle",
-        margin: el.hasContainer ? 2 : 0, // Reduced margin from 5 to 2
-        wrap: true,
-        // Style Mapping
-        bold: el.fontWeight === 'bold',
-        italic: el.fontStyle === 'italic',
-      };
-
-      // Apply Shape/Container Styles
-      if (el.hasContainer) {
-        textOptions.shape = 'roundRect';
-        textOptions.rectRadius = 0.1; // mild roundness
-        textOptions.fill = fillProps;
-        textOptions.line = { color: "888888", width: 0.5, transparency: 50 }; // Subtle border
-        textOptions.shadow = shadowProps;
-      }
+    // 3. NATIVE SHAPES (beneath tables and text)
+    (imgData.shapes || []).forEach((shape) => addShapeElement(slide, shape, area));
 
-      // Text Outline/Stroke (if detected)
-      if (el.strokeColor) {
-        textOptions.outline = { color: cleanHex(el.strokeColor), size: 0.75 };
-      }
-      
-      // Text Shadow (Drop Shadow)
-      if (el.textShadowHex) {
-          // pptxgenjs doesn't support text-specific shadow easily within addText same as shape shadow
-          // But we can approximate roughly or rely on the container shadow. 
-          // For now, we omit text-specific shadow to prevent conflict with container shadow.
-      }
+    // 4. NATIVE TABLES AND CHARTS
+    (imgData.tables || []).forEach((table) => addTableElement(slide, table, area, options.fonts));
+    (imgData.charts || []).forEach((chart) => addChartElement(slide, chart, area));
 
-      slide.addText(el.text, textOptions);
-    });
+    // 5. OVERLAY TEXT BOXES
+    imgData.elements.forEach((el) => addTextElement(slide, el, area, options.fonts));
   }
 
-  await pptx.writeFile({ fileName: `Converted-Presentation-${Date.now()}.pptx` });
-};
\ No newline at end of file
+  return pptx;
+};
+
+export const pptxExporter: Exporter = {
+  id: 'pptx',
+  label: 'PowerPoint',
+  extension: 'pptx',
+  description: 'Editable .pptx with native text, tables, shapes and charts',
+  export: async (images, options, baseName) => {
+    const files = [];
+    for (const plan of planDecks(images, options)) {
+      const pptx = await buildDeck(plan.images, plan.deck, options);
+      const data = await pptx.write({ outputType: 'blob' }) as Blob;
+      files.push({ fileName: `${baseName}${plan.suffix}.pptx`, data });
+    }
+    return files;
+  },
+};
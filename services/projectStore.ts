@@ -0,0 +1,160 @@
+import JSZip from "jszip";
+import { ProcessedImage } from "../types";
+
+const DB_NAME = 'img2ppt';
+const DB_VERSION = 1;
+const ITEMS_STORE = 'items';
+export const PROJECT_BUNDLE_VERSION = 1;
+
+// Everything about a slide except the live File handle and object URL, which cannot outlive the page
+type StoredLayout = Omit<ProcessedImage, 'file' | 'previewUrl'>;
+
+interface StoredItem extends StoredLayout {
+  position: number;
+  source: Blob;
+  fileName: string;
+  fileType: string;
+}
+
+interface BundleItem extends Omit<StoredLayout, 'cleanBackgroundBase64'> {
+  fileName: string;
+  fileType: string;
+  sourcePath: string;
+  backgroundPath?: string;
+}
+
+const toStoredLayout = ({ file, previewUrl, ...layout }: ProcessedImage): StoredLayout => ({
+  ...layout,
+  // A slide that was mid-analysis when the page went away has to be run again
+  status: layout.status === 'processing' ? 'pending' : layout.status,
+});
+
+const fromStored = (layout: StoredLayout, source: Blob, fileName: string, fileType: string): ProcessedImage => {
+  const file = new File([source], fileName, { type: fileType });
+  return { ...layout, file, previewUrl: URL.createObjectURL(file) };
+};
+
+const promisify = <T,>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const openDb = (): Promise<IDBDatabase> => {
+  const request = indexedDB.open(DB_NAME, DB_VERSION);
+  request.onupgradeneeded = () => {
+    request.result.createObjectStore(ITEMS_STORE, { keyPath: 'id' });
+  };
+  return promisify(request);
+};
+
+/**
+ * Replaces the stored session with the current slides. Source files are kept
+ * as blobs so a restored session can be re-analysed or re-cleaned.
+ */
+export const saveSession = async (items: ProcessedImage[]): Promise<void> => {
+  const db = await openDb();
+  try {
+    const tx = db.transaction(ITEMS_STORE, 'readwrite');
+    const store = tx.objectStore(ITEMS_STORE);
+    store.clear();
+    items.forEach((item, position) => {
+      const record: StoredItem = {
+        ...toStoredLayout(item),
+        position,
+        source: item.file,
+        fileName: item.file.name,
+        fileType: item.file.type,
+      };
+      store.put(record);
+    });
+    await new Promise<void>((resolve, reject) => {
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => reject(tx.error);
+      tx.onabort = () => reject(tx.error);
+    });
+  } finally {
+    db.close();
+  }
+};
+
+// Restores the last session in its original order; empty when nothing was saved
+export const loadSession = async (): Promise<ProcessedImage[]> => {
+  const db = await openDb();
+  try {
+    const records = await promisify(db.transaction(ITEMS_STORE).objectStore(ITEMS_STORE).getAll()) as StoredItem[];
+    return records
+      .sort((a, b) => a.position - b.position)
+      .map(({ position, source, fileName, fileType, ...layout }) => fromStored(layout, source, fileName, fileType));
+  } finally {
+    db.close();
+  }
+};
+
+const safeName = (name: string) => name.replace(/[^\w.-]+/g, '_');
+
+/**
+ * Packs the session into a zip: every source image and cleaned background as
+ * a file, plus project.json holding the layouts and where each image lives.
+ */
+export const exportProjectBundle = async (items: ProcessedImage[]): Promise<Blob> => {
+  const zip = new JSZip();
+  const bundleItems: BundleItem[] = [];
+  const digits = String(items.length).length;
+
+  items.forEach((item, index) => {
+    const prefix = String(index + 1).padStart(digits, '0');
+    const { cleanBackgroundBase64, ...layout } = toStoredLayout(item);
+    const sourcePath = `images/${prefix}-${safeName(item.file.name)}`;
+    zip.file(sourcePath, item.file, { createFolders: false });
+
+    let backgroundPath: string | undefined;
+    if (cleanBackgroundBase64) {
+      const [header, base64] = cleanBackgroundBase64.split(',');
+      const extension = header.includes('image/jpeg') ? 'jpg' : 'png';
+      backgroundPath = `backgrounds/${prefix}.${extension}`;
+      zip.file(backgroundPath, base64, { base64: true, createFolders: false });
+    }
+
+    bundleItems.push({ ...layout, fileName: item.file.name, fileType: item.file.type, sourcePath, backgroundPath });
+  });
+
+  zip.file('project.json', JSON.stringify({
+    version: PROJECT_BUNDLE_VERSION,
+    savedAt: new Date().toISOString(),
+    items: bundleItems,
+  }, null, 2));
+
+  return zip.generateAsync({ type: 'blob', mimeType: 'application/zip' });
+};
+
+// Reads a bundle written by exportProjectBundle; slides get fresh ids so they can be merged into a session
+export const importProjectBundle = async (bundle: Blob): Promise<ProcessedImage[]> => {
+  const zip = await JSZip.loadAsync(bundle);
+  const manifest = zip.file('project.json');
+  if (!manifest) throw new Error("Not a project bundle: project.json is missing");
+
+  const project = JSON.parse(await manifest.async('string')) as { version: number; items: BundleItem[] };
+  if (project.version > PROJECT_BUNDLE_VERSION) {
+    throw new Error(`Project bundle version ${project.version} is newer than this app supports`);
+  }
+
+  const items: ProcessedImage[] = [];
+  for (const { sourcePath, backgroundPath, fileName, fileType, ...layout } of project.items) {
+    const source = zip.file(sourcePath);
+    if (!source) throw new Error(`Project bundle is missing ${sourcePath}`);
+
+    const background = backgroundPath ? zip.file(backgroundPath) : null;
+    const cleanBackgroundBase64 = background
+      ? `data:image/${backgroundPath!.endsWith('.jpg') ? 'jpeg' : 'png'};base64,${await background.async('base64')}`
+      : undefined;
+
+    items.push(fromStored(
+      { ...layout, id: Math.random().toString(36).substring(7), cleanBackgroundBase64 },
+      await source.async('blob'),
+      fileName,
+      fileType
+    ));
+  }
+  return items;
+};
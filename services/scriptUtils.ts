@@ -0,0 +1,73 @@
+import { DetectedTextElement, EastAsianScript, TextScript } from "../types";
+
+export const TEXT_SCRIPTS: TextScript[] = ['Latn', 'Cyrl', 'Grek', 'Arab', 'Hebr', 'Hans', 'Hant', 'Jpan', 'Kore', 'Thai', 'Deva'];
+export const EAST_ASIAN_SCRIPTS: EastAsianScript[] = ['Hans', 'Hant', 'Jpan', 'Kore'];
+const RTL_SCRIPTS: TextScript[] = ['Arab', 'Hebr'];
+
+// Language assumed when the analyzer gave a script but no language
+const DEFAULT_LANGUAGES: Partial<Record<TextScript, string>> = {
+  Cyrl: 'ru-RU',
+  Grek: 'el-GR',
+  Arab: 'ar-SA',
+  Hebr: 'he-IL',
+  Hans: 'zh-CN',
+  Hant: 'zh-TW',
+  Jpan: 'ja-JP',
+  Kore: 'ko-KR',
+  Thai: 'th-TH',
+  Deva: 'hi-IN',
+};
+
+// Unicode ranges per script; Han ideographs are shared by Chinese and Japanese and resolved below
+const SCRIPT_RANGES: [TextScript | 'Hani' | 'Kana', RegExp][] = [
+  ['Kana', /[\u3040-\u30FF\u31F0-\u31FF\uFF66-\uFF9F]/g],
+  ['Kore', /[\u1100-\u11FF\u3130-\u318F\uAC00-\uD7AF]/g],
+  ['Hani', /[\u3400-\u4DBF\u4E00-\u9FFF\uF900-\uFAFF]/g],
+  ['Arab', /[\u0600-\u06FF\u0750-\u077F\u08A0-\u08FF\uFB50-\uFDFF\uFE70-\uFEFF]/g],
+  ['Hebr', /[\u0590-\u05FF\uFB1D-\uFB4F]/g],
+  ['Cyrl', /[\u0400-\u04FF]/g],
+  ['Grek', /[\u0370-\u03FF]/g],
+  ['Thai', /[\u0E00-\u0E7F]/g],
+  ['Deva', /[\u0900-\u097F]/g],
+  ['Latn', /[A-Za-z\u00C0-\u024F]/g],
+];
+
+/**
+ * Dominant script of a text by character count. Any kana makes Han text
+ * Japanese; plain Han is taken as Simplified Chinese unless the language says otherwise.
+ */
+export const detectScript = (text: string, language?: string): TextScript => {
+  const counts = SCRIPT_RANGES.map(([script, pattern]) => ({ script, count: (text.match(pattern) || []).length }));
+  const count = (script: string) => counts.find(c => c.script === script)!.count;
+
+  if (count('Kana') > 0) return 'Jpan';
+  const best = counts.filter(c => c.script !== 'Kana').sort((a, b) => b.count - a.count)[0];
+  if (best.count === 0) return 'Latn';
+  if (best.script !== 'Hani') return best.script as TextScript;
+
+  if (/^ja\b/i.test(language || '')) return 'Jpan';
+  if (/^zh-(TW|HK|MO|Hant)\b/i.test(language || '')) return 'Hant';
+  return 'Hans';
+};
+
+export const getElementScript = (el: Pick<DetectedTextElement, 'text' | 'script' | 'language'>): TextScript =>
+  el.script || detectScript(el.text, el.language);
+
+// BCP 47 tag for the exporters; undefined for Latin text without a known language (exporters default to en-US)
+export const getElementLanguage = (el: Pick<DetectedTextElement, 'text' | 'script' | 'language'>): string | undefined =>
+  el.language || DEFAULT_LANGUAGES[getElementScript(el)];
+
+export const isRtlScript = (script: TextScript) => RTL_SCRIPTS.includes(script);
+
+export const isEastAsianScript = (script: TextScript): script is EastAsianScript =>
+  (EAST_ASIAN_SCRIPTS as TextScript[]).includes(script);
+
+// Characters drawn one em wide: CJK ideographs, kana, hangul, and full-width forms and punctuation
+const FULL_WIDTH = /[\u1100-\u115F\u2E80-\u303F\u3040-\u33FF\u3400-\u4DBF\u4E00-\u9FFF\uA960-\uA97F\uAC00-\uD7AF\uF900-\uFAFF\uFE30-\uFE4F\uFF01-\uFF60\uFFE0-\uFFE6]/;
+
+/**
+ * Rough advance width of a text in ems, for when the font cannot be measured:
+ * full-width glyphs take a whole em, everything else about half of one.
+ */
+export const estimateTextWidthEm = (text: string): number =>
+  [...text].reduce((sum, char) => sum + (FULL_WIDTH.test(char) ? 1 : char === ' ' ? 0.28 : 0.55), 0);
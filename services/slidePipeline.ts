@@ -0,0 +1,200 @@
+import { BackgroundCleaningMode, ModelCallUsage, ProcessedImage, SlideLayout } from "../types";
+import { CLEANING_PROMPT_VERSION, GEMINI_IMAGE_MODEL, getClosestAspectRatio, removeTextFromImage } from "./geminiService";
+import { alignBackgroundToSource, MAX_ALIGNMENT_DIFF } from "./backgroundAlignment";
+import { inpaintTextRegions } from "./inpaintService";
+import { canDecodeImages, getImageSize, loadImageData } from "./imageUtils";
+import { correctLayoutColors } from "./colorCorrection";
+import { getLayoutBoxes } from "./layoutUtils";
+import { isAbortError, JobQueue } from "./jobQueue";
+import { removeGhostText } from "./ghostTextService";
+import { backgroundCacheKey, cached, CacheStore, hashBlob, layoutCacheKey } from "./analysisCache";
+import { addModelCall, addUsage, emptyUsage } from "./usageService";
+import type { VisionProvider } from "./visionProviders";
+
+// Analysis finds the layout; cleaning produces the text-free background. Either can be re-run alone.
+export type PipelineStage = 'analysis' | 'cleaning';
+
+export const ALL_STAGES: PipelineStage[] = ['analysis', 'cleaning'];
+
+export interface PipelineSettings {
+  apiKey: string;
+  visionProvider: VisionProvider;
+  cleaningMode: BackgroundCleaningMode;
+  rebuildShapes: boolean;
+  rebuildCharts: boolean;
+  correctColors: boolean; // Replace model colors that disagree with the sampled pixels
+  detectFontNames: boolean;
+  cache?: CacheStore; // Reuses model answers for identical image bytes and settings
+  refreshCache?: boolean; // Force re-run: skip cached answers and replace them
+}
+
+// Shown when the deck has to fall back to the original image, text and all, under the editable text
+export const UNCLEANED_BACKGROUND_WARNING = "No cleaned background: the original image, text included, sits behind the editable text";
+
+const layoutOf = (item: ProcessedImage): SlideLayout => ({
+  elements: item.elements || [],
+  tables: item.tables,
+  shapes: item.shapes,
+  charts: item.charts,
+});
+
+/**
+ * Runs the requested stages for one slide and returns the fields to merge into it.
+ * Model calls go through the queue so they get its timeout, retry and backoff.
+ * A stage that is not requested keeps the slide's existing result. The
+ * returned usage is the slide's previous usage plus this run's requests.
+ */
+export const processSlide = async (
+  item: ProcessedImage,
+  stages: PipelineStage[],
+  settings: PipelineSettings,
+  queue: JobQueue
+): Promise<Partial<ProcessedImage>> => {
+  const { apiKey, visionProvider, cleaningMode } = settings;
+  const runAnalysis = stages.includes('analysis');
+  const runCleaning = stages.includes('cleaning');
+
+  // 1. Get image dimensions first to determine aspect ratio
+  const { width, height } = await getImageSize(item.file);
+
+  // Closest ratio the image model supports; the result is realigned to the exact size below
+  const targetAspectRatio = getClosestAspectRatio(width, height);
+
+  // 2. Run analysis and AI background cleaning in parallel
+  // Shapes and charts are only erased from the background when they will be rebuilt natively
+  const detectShapes = !item.textLayer && settings.rebuildShapes && visionProvider.supportsShapes;
+  const detectCharts = !item.textLayer && settings.rebuildCharts && visionProvider.supportsCharts;
+  const detectFontNames = settings.detectFontNames && visionProvider.supportsFontNames;
+  // Model answers are keyed by the image bytes plus everything that shapes the answer
+  const { cache, refreshCache } = settings;
+  const hash = cache ? await hashBlob(item.file) : undefined;
+  const analysisKey = hash && visionProvider.cacheId
+    ? layoutCacheKey(hash, visionProvider.cacheId, { detectShapes, detectCharts, detectFontNames })
+    : undefined;
+  const cleaningKey = hash
+    ? backgroundCacheKey(hash, `${GEMINI_IMAGE_MODEL}@${CLEANING_PROMPT_VERSION}`, targetAspectRatio, { removeShapes: detectShapes, removeCharts: detectCharts })
+    : undefined;
+
+  // Every request is timed and its retries counted; answers served from the cache cost nothing
+  let usage = emptyUsage();
+  const onUsage = (call: ModelCallUsage) => {
+    usage = addModelCall(usage, call);
+  };
+  const request = async <T,>(call: (signal: AbortSignal) => Promise<T>): Promise<T> => {
+    const started = Date.now();
+    try {
+      return await queue.request(call, () => {
+        usage = { ...usage, retries: usage.retries + 1 };
+      });
+    } finally {
+      usage = { ...usage, latencyMs: usage.latencyMs + Date.now() - started };
+    }
+  };
+
+  const [analysis, cleaning] = await Promise.all([
+    !runAnalysis
+      ? Promise.resolve({ value: layoutOf(item), status: undefined })
+      : item.textLayer
+        ? Promise.resolve({ value: item.textLayer, status: undefined })
+        : cached(cache, analysisKey, () => request(signal => visionProvider.analyze(item.file, { apiKey, detectShapes, detectCharts, detectFontNames, signal, onUsage })), refreshCache),
+    // Pass the aspect ratio to ensure background isn't squashed
+    runCleaning && cleaningMode === 'ai' && apiKey
+      ? cached(cache, cleaningKey, () => request(signal => removeTextFromImage(item.file, apiKey, targetAspectRatio, { removeShapes: detectShapes, removeCharts: detectCharts, signal, onUsage })), refreshCache).catch(err => {
+          if (isAbortError(err)) throw err;
+          console.warn("AI background cleaning failed, falling back to local inpainting", err);
+          return undefined;
+        })
+      : Promise.resolve(undefined)
+  ]);
+  const detected = analysis.value;
+  const aiBackground = cleaning?.value;
+
+  const result: Partial<ProcessedImage> = {
+    width,
+    height,
+    cache: {
+      analysis: runAnalysis ? analysis.status : item.cache?.analysis,
+      cleaning: runCleaning ? cleaning?.status : item.cache?.cleaning,
+    },
+  };
+
+  // PDF text layers already carry sampled colors
+  const layout = runAnalysis && settings.correctColors && !item.textLayer && detected.elements.length > 0 && canDecodeImages()
+    ? correctLayoutColors(await loadImageData(item.file), detected).layout
+    : detected;
+
+  if (runAnalysis) {
+    result.elements = layout.elements;
+    result.tables = layout.tables;
+    result.shapes = layout.shapes;
+    result.charts = layout.charts;
+    result.warnings = layout.warnings;
+  }
+
+  if (!runCleaning) return { ...result, usage: addUsage(item.usage, usage) };
+
+  // 3. Map the generated background back onto the source pixel grid so box_2d still lines up
+  let cleanBackgroundBase64: string | undefined;
+  let cleaningMethod: ProcessedImage['cleaningMethod'];
+  let backgroundAlignment: ProcessedImage['backgroundAlignment'];
+  const layoutBoxes = getLayoutBoxes(layout);
+  if (aiBackground && !canDecodeImages()) {
+    // Without pixels the background cannot be aligned or checked, so it is used as generated
+    cleanBackgroundBase64 = aiBackground;
+    cleaningMethod = 'ai';
+  } else if (aiBackground) {
+    const aligned = await alignBackgroundToSource(aiBackground, item.file, layoutBoxes).catch(err => {
+      console.warn("Background alignment failed", err);
+      return undefined;
+    });
+    if (aligned && aligned.meanDiff <= MAX_ALIGNMENT_DIFF) {
+      cleanBackgroundBase64 = aligned.dataUrl;
+      cleaningMethod = 'ai';
+      backgroundAlignment = { fit: aligned.fit, meanDiff: aligned.meanDiff };
+    } else if (aligned) {
+      console.warn(`AI background for ${item.file.name} does not match the source (meanDiff=${aligned.meanDiff}), using local inpainting`);
+    }
+  }
+
+  // 4. Local inpainting needs the detected boxes, so it runs after analysis
+  if (!cleanBackgroundBase64 && canDecodeImages()) {
+    cleanBackgroundBase64 = await inpaintTextRegions(item.file, layoutBoxes).catch(err => {
+      console.warn("Local inpainting failed, falling back to original", err);
+      return undefined;
+    });
+    if (cleanBackgroundBase64) cleaningMethod = 'local';
+  }
+
+  // 5. Look for glyphs the cleaning left inside the text boxes and re-clean just those crops
+  let ghostText: ProcessedImage['ghostText'];
+  if (cleanBackgroundBase64 && canDecodeImages() && layout.elements.length > 0) {
+    const cleanCrop = cleaningMethod === 'ai' && apiKey
+      ? (crop: File) => getImageSize(crop).then(size => request(signal =>
+          removeTextFromImage(crop, apiKey, getClosestAspectRatio(size.width, size.height), { signal, onUsage })
+        ))
+      : undefined;
+    const verified = await removeGhostText(cleanBackgroundBase64, item.file, layout.elements.map(el => el.box_2d), cleanCrop).catch(err => {
+      if (isAbortError(err)) throw err;
+      console.warn("Ghost text check failed", err);
+      return undefined;
+    });
+    if (verified) {
+      cleanBackgroundBase64 = verified.dataUrl;
+      ghostText = verified.check;
+    }
+  }
+
+  const warnings = (runAnalysis ? layout.warnings : item.warnings)?.filter(w => w !== UNCLEANED_BACKGROUND_WARNING) || [];
+  if (!cleanBackgroundBase64 && layout.elements.length > 0) warnings.push(UNCLEANED_BACKGROUND_WARNING);
+
+  // Taken last so the ghost text re-clean requests are counted too
+  return {
+    ...result,
+    cleanBackgroundBase64,
+    cleaningMethod,
+    backgroundAlignment,
+    ghostText,
+    warnings: warnings.length > 0 ? warnings : undefined,
+    usage: addUsage(item.usage, usage),
+  };
+};
@@ -0,0 +1,274 @@
+import { DetectedShape, DetectedTable, DetectedTextElement, FontProfile, ProcessedImage } from "../types";
+import { boxToPixels, loadImage } from "./imageUtils";
+import { getStyledLines, StyledLine } from "./layoutUtils";
+import { resolveFontFace } from "./fontService";
+import { getElementScript, isEastAsianScript, isRtlScript } from "./scriptUtils";
+import { LINE_HEIGHT, LINE_HEIGHT_EAST_ASIAN, LIST_INDENT_PT } from "./textFit";
+import { fontStack } from "./htmlService";
+import { cleanHex, fileToBase64, getBackgroundDataUrl, getFittedFontSize, getTextFrame, ImageArea } from "./pptService";
+
+type Ctx = CanvasRenderingContext2D;
+type Piece = StyledLine['pieces'][number];
+
+const color = (hex?: string) => `#${cleanHex(hex)}`;
+
+// A 0-1000 box in slide points
+const boxToRect = (box: [number, number, number, number], slide: { w: number; h: number }) => {
+  const { x0, y0, x1, y1 } = boxToPixels(box, slide.w, slide.h);
+  return { x: x0, y: y0, w: x1 - x0, h: y1 - y0 };
+};
+
+const drawArrowHead = (ctx: Ctx, fromX: number, fromY: number, toX: number, toY: number, size: number) => {
+  const angle = Math.atan2(toY - fromY, toX - fromX);
+  ctx.beginPath();
+  ctx.moveTo(toX, toY);
+  ctx.lineTo(toX - size * Math.cos(angle - Math.PI / 6), toY - size * Math.sin(angle - Math.PI / 6));
+  ctx.lineTo(toX - size * Math.cos(angle + Math.PI / 6), toY - size * Math.sin(angle + Math.PI / 6));
+  ctx.closePath();
+  ctx.fill();
+};
+
+const drawShape = (ctx: Ctx, shape: DetectedShape, slide: { w: number; h: number }) => {
+  const lineWidth = shape.strokeWidth ? Math.max(0.5, (shape.strokeWidth / 1000) * slide.h) : slide.h / 500;
+  ctx.lineWidth = lineWidth;
+  ctx.setLineDash(shape.dashed ? [lineWidth * 4, lineWidth * 2] : []);
+
+  if (shape.kind === 'line' || shape.kind === 'arrow') {
+    const [y1, x1] = shape.start || [shape.box_2d[0], shape.box_2d[1]];
+    const [y2, x2] = shape.end || [shape.box_2d[2], shape.box_2d[3]];
+    const [ax, ay, bx, by] = [(x1 / 1000) * slide.w, (y1 / 1000) * slide.h, (x2 / 1000) * slide.w, (y2 / 1000) * slide.h];
+    ctx.strokeStyle = ctx.fillStyle = color(shape.strokeColor || shape.fillColor);
+    ctx.beginPath();
+    ctx.moveTo(ax, ay);
+    ctx.lineTo(bx, by);
+    ctx.stroke();
+    const heads = shape.kind === 'arrow' ? shape.arrowHeads || 'end' : undefined;
+    if (heads === 'end' || heads === 'both') drawArrowHead(ctx, ax, ay, bx, by, lineWidth * 5);
+    if (heads === 'start' || heads === 'both') drawArrowHead(ctx, bx, by, ax, ay, lineWidth * 5);
+    return;
+  }
+
+  const { x, y, w, h } = boxToRect(shape.box_2d, slide);
+  ctx.beginPath();
+  if (shape.kind === 'ellipse') {
+    ctx.ellipse(x + w / 2, y + h / 2, w / 2, h / 2, 0, 0, Math.PI * 2);
+  } else {
+    ctx.roundRect(x, y, w, h, shape.kind === 'roundedRectangle' ? Math.min(w, h) * 0.1 : 0);
+  }
+  if (shape.fillColor) {
+    ctx.fillStyle = color(shape.fillColor);
+    ctx.fill();
+  }
+  if (shape.strokeColor) {
+    ctx.strokeStyle = color(shape.strokeColor);
+    ctx.stroke();
+  }
+};
+
+// Cell fills, borders and text; spans are honoured, cell text is not wrapped
+const drawTable = (ctx: Ctx, table: DetectedTable, slide: { w: number; h: number }, fontFace: string) => {
+  const rows = Math.max(1, Math.round(table.rows));
+  const cols = Math.max(1, Math.round(table.cols));
+  const rect = boxToRect(table.box_2d, slide);
+  const rowHeight = rect.h / rows;
+  // Same size rule as the HTML export
+  const fontSize = Math.min(18, Math.max(8, rowHeight * 0.45));
+
+  const widthSum = table.colWidths?.reduce((a, b) => a + b, 0) || 0;
+  const widths = table.colWidths && table.colWidths.length === cols && widthSum > 0
+    ? table.colWidths.map(cw => (cw / widthSum) * rect.w)
+    : Array(cols).fill(rect.w / cols);
+  const colX = widths.reduce<number[]>((xs, w) => [...xs, xs[xs.length - 1] + w], [rect.x]);
+
+  ctx.setLineDash([]);
+  ctx.lineWidth = 0.75;
+  ctx.textBaseline = 'middle';
+  ctx.textAlign = 'left';
+  table.cells.forEach(cell => {
+    if (cell.row >= rows || cell.col >= cols) return;
+    const isHeader = table.hasHeaderRow && cell.row === 0;
+    const lastCol = Math.min(cols, cell.col + Math.max(1, cell.colSpan || 1));
+    const x = colX[cell.col];
+    const y = rect.y + cell.row * rowHeight;
+    const w = colX[lastCol] - x;
+    const h = Math.min(rows - cell.row, Math.max(1, cell.rowSpan || 1)) * rowHeight;
+
+    const fill = cell.fillColor || (isHeader ? table.headerFillColor : table.fillColor);
+    if (fill) {
+      ctx.fillStyle = color(fill);
+      ctx.fillRect(x, y, w, h);
+    }
+    if (table.borderColor) {
+      ctx.strokeStyle = color(table.borderColor);
+      ctx.strokeRect(x, y, w, h);
+    }
+
+    const lines = (cell.text || '').split('\n');
+    ctx.save();
+    ctx.beginPath();
+    ctx.rect(x, y, w, h);
+    ctx.clip();
+    ctx.fillStyle = color(cell.textColor || (isHeader ? table.headerTextColor || table.textColor : table.textColor));
+    ctx.font = `${(cell.bold ?? isHeader) ? 'bold ' : ''}${fontSize}px ${fontStack(fontFace, 'sans-serif')}`;
+    lines.forEach((line, i) => {
+      ctx.fillText(line, x + fontSize * 0.3, y + h / 2 + (i - (lines.length - 1) / 2) * fontSize * LINE_HEIGHT);
+    });
+    ctx.restore();
+  });
+};
+
+const drawPiece = (ctx: Ctx, piece: Piece, text: string, x: number, y: number, size: number, strokeColor?: string) => {
+  ctx.fillStyle = color(piece.color);
+  ctx.fillText(text, x, y);
+  if (strokeColor) {
+    ctx.strokeStyle = color(strokeColor);
+    ctx.lineWidth = size * 0.06;
+    ctx.strokeText(text, x, y);
+  }
+};
+
+/**
+ * Draws one text block the way the exports place it: the same frame, fitted
+ * font size, container and rotation. Lines are never wrapped, as in the fit.
+ */
+const drawTextElement = (ctx: Ctx, el: DetectedTextElement, area: ImageArea, fonts: FontProfile) => {
+  const frame = getTextFrame(el, area);
+  const fontFace = resolveFontFace(el, fonts);
+  const margin = el.hasContainer ? 2 : 0;
+  const { fontSize } = getFittedFontSize(el, fontFace, frame, area, margin);
+  const w = frame.w * 72;
+  const h = frame.h * 72;
+  const script = getElementScript(el);
+  const lineHeight = isEastAsianScript(script) ? LINE_HEIGHT_EAST_ASIAN : LINE_HEIGHT;
+  const fontOf = (piece: Pick<Piece, 'bold' | 'italic'>, size: number) =>
+    `${piece.italic ? 'italic ' : ''}${piece.bold ? 'bold ' : ''}${size}px ${fontStack(fontFace, el.fontFamily)}`;
+
+  ctx.save();
+  // Drawn about the frame centre so rotation turns the block in place
+  ctx.translate((frame.x + frame.w / 2) * 72, (frame.y + frame.h / 2) * 72);
+  if (el.rotation) ctx.rotate((el.rotation * Math.PI) / 180);
+
+  if (el.hasContainer) {
+    ctx.globalAlpha = el.containerOpacity ?? 1;
+    ctx.fillStyle = color(el.containerColor || 'FFFFFF');
+    ctx.beginPath();
+    ctx.roundRect(-w / 2, -h / 2, w, h, Math.min(w, h) * 0.1);
+    ctx.fill();
+    ctx.globalAlpha = 1;
+  }
+
+  const lines = getStyledLines(el);
+  const advances = lines.map(line =>
+    fontSize * Math.max(1, ...line.pieces.map(p => p.sizeScale)) * lineHeight * (line.format?.lineSpacing || 1)
+  );
+  const total = advances.reduce((a, b) => a + b, 0);
+
+  if (el.vertical) {
+    // Columns run top to bottom and stack from right to left, centred across the frame
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'top';
+    let x = total / 2;
+    lines.forEach((line, i) => {
+      const cx = x - advances[i] / 2;
+      let y = -h / 2 + margin;
+      line.pieces.forEach(piece => {
+        const size = fontSize * piece.sizeScale;
+        ctx.font = fontOf(piece, size);
+        [...piece.text].forEach(char => {
+          drawPiece(ctx, piece, char, cx, y, size, el.strokeColor);
+          y += size;
+        });
+      });
+      x -= advances[i];
+    });
+    ctx.restore();
+    return;
+  }
+
+  const rtl = isRtlScript(script);
+  ctx.direction = rtl ? 'rtl' : 'ltr';
+  ctx.textAlign = 'left';
+  ctx.textBaseline = 'middle';
+  const counters: number[] = [];
+  let y = -total / 2;
+  lines.forEach((line, i) => {
+    const format = line.format;
+    const level = format?.indentLevel || 0;
+    counters.length = level + 1;
+    let marker = '';
+    if (format?.bullet === 'number') {
+      counters[level] = (counters[level] || 0) + 1;
+      marker = `${counters[level]}. `;
+    } else {
+      counters[level] = 0;
+      if (format?.bullet === 'bullet') marker = '• ';
+    }
+
+    const widths = line.pieces.map(piece => {
+      ctx.font = fontOf(piece, fontSize * piece.sizeScale);
+      return ctx.measureText(piece.text).width;
+    });
+    ctx.font = fontOf({ bold: false, italic: false }, fontSize);
+    const markerWidth = marker ? ctx.measureText(marker).width : 0;
+    const lineWidth = markerWidth + widths.reduce((a, b) => a + b, 0);
+    const indent = level * LIST_INDENT_PT;
+    const left = -w / 2 + margin + (rtl ? 0 : indent);
+    const right = w / 2 - margin - (rtl ? indent : 0);
+    let x = el.alignment === 'center' ? -lineWidth / 2 : el.alignment === 'right' ? right - lineWidth : left;
+    const baseline = y + advances[i] / 2;
+
+    // Right-to-left lines start at the right edge, so runs are laid out in reverse
+    const markerPiece: Piece = { text: marker, color: el.textColor, bold: false, italic: false, underline: false, sizeScale: 1 };
+    const parts = [
+      ...(marker ? [{ piece: markerPiece, text: marker, width: markerWidth }] : []),
+      ...line.pieces.map((piece, p) => ({ piece, text: piece.text, width: widths[p] })),
+    ];
+    (rtl ? [...parts].reverse() : parts).forEach(({ piece, text, width }) => {
+      const size = fontSize * piece.sizeScale;
+      ctx.font = fontOf(piece, size);
+      drawPiece(ctx, piece, text, x, baseline, size, el.strokeColor);
+      if (piece.underline) {
+        ctx.fillStyle = color(piece.color);
+        ctx.fillRect(x, baseline + size * 0.4, width, Math.max(0.5, size / 15));
+      }
+      x += width;
+    });
+    y += advances[i];
+  });
+  ctx.restore();
+};
+
+/**
+ * Draws the slide as the exports rebuild it: the cleaned background, shapes,
+ * tables, chart crops of the original and every text block at its fitted
+ * size. The canvas is `width` pixels wide with the image's aspect ratio.
+ */
+export const renderReconstruction = async (item: ProcessedImage, fonts: FontProfile, width = item.width): Promise<HTMLCanvasElement> => {
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(width));
+  canvas.height = Math.max(1, Math.round((width * item.height) / item.width));
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Canvas 2D context unavailable");
+
+  // Same nominal geometry as a 10in-wide PPTX slide, drawn in points
+  const area: ImageArea = { x: 0, y: 0, w: 10, h: (10 * item.height) / item.width };
+  const slide = { w: area.w * 72, h: area.h * 72 };
+  ctx.scale(canvas.width / slide.w, canvas.height / slide.h);
+
+  ctx.drawImage(await loadImage(await getBackgroundDataUrl(item)), 0, 0, slide.w, slide.h);
+  (item.shapes || []).forEach(shape => drawShape(ctx, shape, slide));
+  (item.tables || []).forEach(table => drawTable(ctx, table, slide, fonts.families['sans-serif'].regular));
+
+  // Charts are exported natively; the original pixels stand in for them here
+  if (item.charts && item.charts.length > 0) {
+    const source = await loadImage(await fileToBase64(item.file));
+    item.charts.forEach(chart => {
+      const src = boxToPixels(chart.box_2d, source.naturalWidth, source.naturalHeight);
+      const dest = boxToRect(chart.box_2d, slide);
+      ctx.drawImage(source, src.x0, src.y0, src.x1 - src.x0, src.y1 - src.y0, dest.x, dest.y, dest.w, dest.h);
+    });
+  }
+
+  (item.elements || []).forEach(el => drawTextElement(ctx, el, area, fonts));
+  return canvas;
+};
@@ -0,0 +1,96 @@
+import { createWorker } from "tesseract.js";
+import type { Bbox, Paragraph } from "tesseract.js";
+import { DetectedTextElement } from "../types";
+import type { VisionProvider } from "./visionProviders";
+import { loadImageData, rgbToHex, sampleRegionColors } from "./imageUtils";
+import { detectParagraphs, estimateAlignment, markTitle } from "./layoutUtils";
+
+const OCR_LANGUAGE = "eng";
+const MIN_CONFIDENCE = 45; // Paragraphs below this are usually texture or icons misread as text
+
+/**
+ * Asset locations for the Tesseract worker, WASM core and trained data.
+ * Defaults to the tesseract.js CDN; air-gapped deployments point these at
+ * self-hosted copies via the TESSERACT_* env vars.
+ */
+const getWorkerOptions = () => {
+  const options: { langPath?: string; corePath?: string; workerPath?: string } = {};
+  if (process.env.TESSERACT_LANG_PATH) options.langPath = process.env.TESSERACT_LANG_PATH;
+  if (process.env.TESSERACT_CORE_PATH) options.corePath = process.env.TESSERACT_CORE_PATH;
+  if (process.env.TESSERACT_WORKER_PATH) options.workerPath = process.env.TESSERACT_WORKER_PATH;
+  return options;
+};
+
+const toBox2d = (bbox: Bbox, width: number, height: number): DetectedTextElement['box_2d'] => [
+  Math.round((bbox.y0 / height) * 1000),
+  Math.round((bbox.x0 / width) * 1000),
+  Math.round((bbox.y1 / height) * 1000),
+  Math.round((bbox.x1 / width) * 1000),
+];
+
+const paragraphToElement = (paragraph: Paragraph, pixels: ImageData): DetectedTextElement | null => {
+  const lines = paragraph.lines.filter(l => l.text.trim().length > 0);
+  if (lines.length === 0) return null;
+
+  const { text, paragraphs } = detectParagraphs(lines);
+  const { background, foreground, inkRatio } = sampleRegionColors(pixels, paragraph.bbox);
+  const avgLineHeight = lines.reduce((sum, l) => sum + (l.bbox.y1 - l.bbox.y0), 0) / lines.length;
+
+  return {
+    text,
+    box_2d: toBox2d(paragraph.bbox, pixels.width, pixels.height),
+    textColor: rgbToHex(foreground),
+    hasContainer: false,
+    containerColor: rgbToHex(background),
+    fontSize: Math.round((avgLineHeight / pixels.height) * 1000),
+    fontFamily: 'sans-serif',
+    // Heavier strokes cover noticeably more of the line box
+    fontWeight: inkRatio > 0.3 ? 'bold' : 'normal',
+    fontStyle: 'normal',
+    isTitle: false,
+    alignment: estimateAlignment(lines.map(l => l.bbox), pixels.width),
+    paragraphs,
+  };
+};
+
+export const tesseractProvider: VisionProvider = {
+  id: 'tesseract',
+  label: 'Offline OCR (Tesseract)',
+  description: 'Runs locally in the browser via WASM. No network or API key required.',
+  requiresApiKey: false,
+  supportsShapes: false,
+  supportsCharts: false,
+  supportsFontNames: false,
+  headless: false,
+  analyze: async (file, { signal }) => {
+    const pixels = await loadImageData(file);
+    const worker = await createWorker(OCR_LANGUAGE, undefined, getWorkerOptions());
+    // Recognition cannot be interrupted, so cancelling tears the worker down instead
+    const onAbort = () => worker.terminate();
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    try {
+      const { data } = await worker.recognize(file, {}, { blocks: true });
+      signal?.throwIfAborted();
+      const paragraphs = (data.blocks || [])
+        .flatMap(block => block.paragraphs)
+        .filter(p => p.confidence >= MIN_CONFIDENCE);
+
+      const elements = paragraphs
+        .map(p => paragraphToElement(p, pixels))
+        .filter((el): el is DetectedTextElement => el !== null);
+
+      markTitle(elements);
+
+      return { elements };
+    } catch (error) {
+      // Report the cancel or timeout rather than the error from the terminated worker
+      signal?.throwIfAborted();
+      console.error("Tesseract Analysis Failed:", error);
+      throw error;
+    } finally {
+      signal?.removeEventListener('abort', onAbort);
+      if (!signal?.aborted) await worker.terminate();
+    }
+  },
+};
@@ -0,0 +1,104 @@
+import { StyledLine } from "./layoutUtils";
+import { estimateTextWidthEm } from "./scriptUtils";
+
+export type MeasureContext = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+
+const REFERENCE_SIZE = 100; // Widths are measured once at this size and scaled linearly
+export const LINE_HEIGHT = 1.2; // Single spacing as PowerPoint and browsers lay it out
+export const LINE_HEIGHT_EAST_ASIAN = 1.3; // CJK faces have taller ascent and descent
+export const LIST_INDENT_PT = 27; // pptxgenjs default bullet indent, per list level
+const FIT_SAFETY = 0.96; // Renderers kern and hint slightly differently from canvas
+
+let measureContext: MeasureContext | null | undefined;
+
+// One shared canvas; null where there is no canvas at all (e.g. Node)
+export const getMeasureContext = (): MeasureContext | null => {
+  if (measureContext !== undefined) return measureContext;
+  if (typeof OffscreenCanvas !== 'undefined') {
+    measureContext = new OffscreenCanvas(1, 1).getContext('2d');
+  } else if (typeof document !== 'undefined') {
+    measureContext = document.createElement('canvas').getContext('2d');
+  } else {
+    measureContext = null;
+  }
+  return measureContext;
+};
+
+const listMarker = (line: StyledLine) =>
+  line.format?.bullet === 'bullet' ? '• ' : line.format?.bullet === 'number' ? '10. ' : '';
+
+// Width of a line at REFERENCE_SIZE, in points
+const measureLine = (ctx: MeasureContext, line: StyledLine, fontFace: string): number => {
+  const font = (bold: boolean, italic: boolean, scale: number) =>
+    `${italic ? 'italic ' : ''}${bold ? 'bold ' : ''}${REFERENCE_SIZE * scale}px "${fontFace}"`;
+
+  let width = 0;
+  const marker = listMarker(line);
+  if (marker) {
+    ctx.font = font(false, false, 1);
+    width += ctx.measureText(marker).width;
+  }
+  line.pieces.forEach(piece => {
+    ctx.font = font(piece.bold, piece.italic, piece.sizeScale);
+    width += ctx.measureText(piece.text).width;
+  });
+  return width;
+};
+
+// Width of a line at REFERENCE_SIZE from character classes alone; full-width glyphs count a whole em
+const estimateLine = (line: StyledLine): number =>
+  REFERENCE_SIZE * (estimateTextWidthEm(listMarker(line)) +
+    line.pieces.reduce((sum, piece) => sum + estimateTextWidthEm(piece.text) * piece.sizeScale, 0));
+
+export interface FitOptions {
+  eastAsian?: boolean; // Use the taller CJK line height
+}
+
+type Frame = { width: number; height: number };
+
+const fitLines = (lines: StyledLine[], frame: Frame, lineWidth: (line: StyledLine) => number, { eastAsian }: FitOptions) => {
+  // Each line's width grows linearly with the size; list indents are fixed
+  let widthLimit = Infinity;
+  lines.forEach(line => {
+    const perPoint = lineWidth(line) / REFERENCE_SIZE;
+    const indent = line.format && (line.format.bullet !== 'none' || line.format.indentLevel > 0)
+      ? (line.format.indentLevel + (line.format.bullet !== 'none' ? 1 : 0)) * LIST_INDENT_PT
+      : 0;
+    if (perPoint > 0) widthLimit = Math.min(widthLimit, Math.max(0, frame.width - indent) / perPoint);
+  });
+
+  const lineHeight = eastAsian ? LINE_HEIGHT_EAST_ASIAN : LINE_HEIGHT;
+  const heightPerPoint = lines.reduce((sum, line) => {
+    const scale = Math.max(1, ...line.pieces.map(p => p.sizeScale));
+    return sum + scale * lineHeight * (line.format?.lineSpacing || 1);
+  }, 0);
+  const heightLimit = frame.height / heightPerPoint;
+
+  return Math.min(widthLimit, heightLimit) * FIT_SAFETY;
+};
+
+/**
+ * Largest font size (points) at which every line fits the frame's width
+ * without wrapping and all lines fit its height. Frame size is in points,
+ * inside any margins. Returns undefined when text cannot be measured.
+ */
+export const fitFontSize = (
+  lines: StyledLine[],
+  fontFace: string,
+  frame: Frame,
+  options: FitOptions = {}
+): number | undefined => {
+  const ctx = getMeasureContext();
+  if (!ctx || lines.length === 0 || frame.width <= 0 || frame.height <= 0) return undefined;
+  // A face without CJK glyphs can measure tofu narrower than the real full-width glyphs
+  const lineWidth = (line: StyledLine) => options.eastAsian
+    ? Math.max(measureLine(ctx, line, fontFace), estimateLine(line))
+    : measureLine(ctx, line, fontFace);
+  return fitLines(lines, frame, lineWidth, options);
+};
+
+// Same fit from estimated character widths, for when there is no canvas to measure with
+export const estimateFontSize = (lines: StyledLine[], frame: Frame, options: FitOptions = {}): number | undefined => {
+  if (lines.length === 0 || frame.width <= 0 || frame.height <= 0) return undefined;
+  return fitLines(lines, frame, estimateLine, options);
+};
@@ -0,0 +1,121 @@
+import { ModelCallUsage, ModelPrice, ModelUsage, PriceTable, ProcessedImage, SlideUsage } from "../types";
+import { GEMINI_IMAGE_MODEL, GEMINI_LAYOUT_MODEL } from "./geminiService";
+
+const PRICE_TABLE_KEY = 'img2ppt.prices';
+
+// Paid-tier list prices in USD when this was written; edit them to match your billing
+export const DEFAULT_PRICES: PriceTable = {
+  [GEMINI_LAYOUT_MODEL]: { inputPerMillion: 0.3, outputPerMillion: 2.5 },
+  [GEMINI_IMAGE_MODEL]: { inputPerMillion: 0.3, outputPerMillion: 30 },
+};
+
+export const emptyUsage = (): SlideUsage => ({ models: {}, retries: 0, latencyMs: 0 });
+
+const emptyModelUsage = (): ModelUsage => ({ requests: 0, inputTokens: 0, outputTokens: 0, imageGenerations: 0 });
+
+const addModelUsage = (a: ModelUsage, b: ModelUsage): ModelUsage => ({
+  requests: a.requests + b.requests,
+  inputTokens: a.inputTokens + b.inputTokens,
+  outputTokens: a.outputTokens + b.outputTokens,
+  imageGenerations: a.imageGenerations + b.imageGenerations,
+});
+
+export const addModelCall = (usage: SlideUsage, { model, ...call }: ModelCallUsage): SlideUsage => ({
+  ...usage,
+  models: { ...usage.models, [model]: addModelUsage(usage.models[model] || emptyModelUsage(), { requests: 1, ...call }) },
+});
+
+export const addUsage = (a: SlideUsage | undefined, b: SlideUsage | undefined): SlideUsage => {
+  const models = { ...a?.models };
+  Object.entries(b?.models || {}).forEach(([model, usage]) => {
+    models[model] = addModelUsage(models[model] || emptyModelUsage(), usage);
+  });
+  return {
+    models,
+    retries: (a?.retries || 0) + (b?.retries || 0),
+    latencyMs: (a?.latencyMs || 0) + (b?.latencyMs || 0),
+  };
+};
+
+export const sumUsage = (usages: (SlideUsage | undefined)[]): SlideUsage =>
+  usages.reduce<SlideUsage>((sum, usage) => addUsage(sum, usage), emptyUsage());
+
+export interface UsageTotals extends ModelUsage {
+  retries: number;
+  latencyMs: number;
+  cost: number; // Estimated USD
+  unpricedModels: string[]; // Models missing from the price table, counted as free
+}
+
+export const getModelCost = (usage: ModelUsage, price: ModelPrice) =>
+  (usage.inputTokens * price.inputPerMillion + usage.outputTokens * price.outputPerMillion) / 1e6;
+
+export const getUsageTotals = (usage: SlideUsage | undefined, prices: PriceTable): UsageTotals => {
+  const totals: UsageTotals = { ...emptyModelUsage(), retries: usage?.retries || 0, latencyMs: usage?.latencyMs || 0, cost: 0, unpricedModels: [] };
+  Object.entries(usage?.models || {}).forEach(([model, modelUsage]) => {
+    Object.assign(totals, addModelUsage(totals, modelUsage));
+    const price = prices[model];
+    if (price) {
+      totals.cost += getModelCost(modelUsage, price);
+    } else if (modelUsage.requests > 0) {
+      totals.unpricedModels.push(model);
+    }
+  });
+  return totals;
+};
+
+// Keeps the defaults for models the saved table does not mention, and drops entries that are not prices
+export const withPriceDefaults = (table: Record<string, Partial<ModelPrice>>): PriceTable => {
+  const prices = { ...DEFAULT_PRICES };
+  Object.entries(table || {}).forEach(([model, price]) => {
+    const { inputPerMillion, outputPerMillion } = price || {};
+    if (Number.isFinite(inputPerMillion) && Number.isFinite(outputPerMillion)) {
+      prices[model] = { inputPerMillion: inputPerMillion!, outputPerMillion: outputPerMillion! };
+    }
+  });
+  return prices;
+};
+
+export const loadPriceTable = (): PriceTable => {
+  try {
+    const saved = localStorage.getItem(PRICE_TABLE_KEY);
+    return saved ? withPriceDefaults(JSON.parse(saved)) : DEFAULT_PRICES;
+  } catch {
+    return DEFAULT_PRICES;
+  }
+};
+
+export const savePriceTable = (prices: PriceTable) => {
+  try {
+    localStorage.setItem(PRICE_TABLE_KEY, JSON.stringify(prices));
+  } catch (e) {
+    console.warn("Could not save price table", e);
+  }
+};
+
+export const formatTokens = (tokens: number) =>
+  tokens >= 1e6 ? `${(tokens / 1e6).toFixed(1)}M` : tokens >= 1e3 ? `${(tokens / 1e3).toFixed(1)}k` : `${tokens}`;
+
+export const formatCost = (usd: number) => `$${usd < 1 ? usd.toFixed(4) : usd.toFixed(2)}`;
+
+const csvField = (value: string | number) => {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const CSV_COLUMNS = ['slide', 'file', 'status', 'requests', 'input_tokens', 'output_tokens', 'image_generations', 'retries', 'latency_ms', 'estimated_cost_usd'];
+
+/**
+ * One row per slide plus a total row, for charging a conversion back to a
+ * project. Costs are estimates from the given price table.
+ */
+export const usageToCsv = (items: ProcessedImage[], prices: PriceTable): string => {
+  const row = (slide: string, file: string, status: string, totals: UsageTotals) => [
+    slide, file, status, totals.requests, totals.inputTokens, totals.outputTokens,
+    totals.imageGenerations, totals.retries, totals.latencyMs, totals.cost.toFixed(6),
+  ].map(csvField).join(',');
+
+  const rows = items.map((item, index) => row(`${index + 1}`, item.file.name, item.status, getUsageTotals(item.usage, prices)));
+  const total = getUsageTotals(sumUsage(items.map(i => i.usage)), prices);
+  return [CSV_COLUMNS.join(','), ...rows, row('total', '', '', total)].join('\n') + '\n';
+};
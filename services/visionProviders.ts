@@ -0,0 +1,64 @@
+import { ModelCallUsage, SlideLayout, VisionProviderId } from "../types";
+import { analyzeImageLayout, GEMINI_LAYOUT_MODEL, LAYOUT_PROMPT_VERSION } from "./geminiService";
+import { tesseractProvider } from "./tesseractProvider";
+import { mockProvider } from "./mockProvider";
+
+export interface AnalyzeOptions {
+  apiKey?: string;
+  detectShapes?: boolean;
+  detectCharts?: boolean;
+  detectFontNames?: boolean;
+  signal?: AbortSignal; // Cancels the request (and any retries) when aborted
+  onUsage?: (call: ModelCallUsage) => void; // Token usage of each model response; local providers never call it
+}
+
+/**
+ * A source of text layout for a slide image.
+ * Every provider returns the same SlideLayout shape so the rest of the
+ * pipeline (editor, export) does not care where the layout came from.
+ * Providers that cannot detect tables, shapes or charts simply leave them out.
+ */
+export interface VisionProvider {
+  id: VisionProviderId;
+  label: string;
+  description: string;
+  requiresApiKey: boolean;
+  supportsShapes: boolean; // Whether detectShapes is honoured
+  supportsCharts: boolean; // Whether detectCharts is honoured
+  supportsFontNames: boolean; // Whether detectFontNames is honoured
+  headless: boolean; // Works without a DOM to decode images, e.g. in the CLI
+  cacheId?: string; // Model and prompt version; only providers that set it have their results cached
+  analyze: (file: File, options: AnalyzeOptions) => Promise<SlideLayout>;
+}
+
+export const geminiProvider: VisionProvider = {
+  id: 'gemini',
+  label: 'Gemini Vision',
+  description: `Cloud analysis with ${GEMINI_LAYOUT_MODEL}. Best fidelity, needs an API key.`,
+  requiresApiKey: true,
+  supportsShapes: true,
+  supportsCharts: true,
+  supportsFontNames: true,
+  headless: true,
+  cacheId: `${GEMINI_LAYOUT_MODEL}@${LAYOUT_PROMPT_VERSION}`,
+  analyze: (file, { apiKey, detectShapes, detectCharts, detectFontNames, signal, onUsage }) => {
+    if (!apiKey) throw new Error("API Key is missing");
+    return analyzeImageLayout(file, apiKey, { detectShapes, detectCharts, detectFontNames, signal, onUsage });
+  },
+};
+
+export const VISION_PROVIDERS: Record<VisionProviderId, VisionProvider> = {
+  gemini: geminiProvider,
+  tesseract: tesseractProvider,
+  mock: mockProvider,
+};
+
+export const getVisionProvider = (id: VisionProviderId): VisionProvider => {
+  return VISION_PROVIDERS[id] || geminiProvider;
+};
+
+// Build-time default (VISION_PROVIDER env var) so CI and offline builds need no UI interaction
+export const getDefaultVisionProviderId = (): VisionProviderId => {
+  const configured = process.env.VISION_PROVIDER as VisionProviderId | undefined;
+  return configured && configured in VISION_PROVIDERS ? configured : 'gemini';
+};
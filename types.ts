@@ -5,6 +5,27 @@ export interface BoundingBox {
   xmax: number;
 }
 
+// ISO 15924 codes of the writing systems the exporters treat specially
+export type TextScript = 'Latn' | 'Cyrl' | 'Grek' | 'Arab' | 'Hebr' | 'Hans' | 'Hant' | 'Jpan' | 'Kore' | 'Thai' | 'Deva';
+export type EastAsianScript = 'Hans' | 'Hant' | 'Jpan' | 'Kore';
+
+// A span of text inside an element whose styling differs from its neighbours
+export interface TextRun {
+  text: string;
+  color?: string; // Hex; falls back to the element's textColor
+  bold?: boolean;
+  italic?: boolean;
+  underline?: boolean;
+  fontSize?: number; // Same relative scale as DetectedTextElement.fontSize
+}
+
+// Paragraph-level structure for one line of an element's text
+export interface ParagraphFormat {
+  bullet: 'bullet' | 'number' | 'none';
+  indentLevel: number; // 0 = top level
+  lineSpacing?: number; // Multiple of single line spacing, e.g. 1.5
+}
+
 export interface DetectedTextElement {
   text: string;
   box_2d: [number, number, number, number]; // [ymin, xmin, ymax, xmax] 0-1000 scale
@@ -15,11 +36,131 @@ export interface DetectedTextElement {
   strokeColor?: string; // Hex color if text has an outline
   fontSize: number; // Relative point size estimate
   fontFamily: 'serif' | 'sans-serif' | 'monospace' | 'handwriting'; // Estimated font style
+  fontName?: string; // Closest known typeface, e.g. "Montserrat"; from the model when asked, or the PDF's own font
   fontWeight: 'bold' | 'normal'; // New: Font weight
   fontStyle: 'italic' | 'normal'; // New: Font style
   isTitle: boolean;
   alignment: 'left' | 'center' | 'right';
   textShadowHex?: string;
+  runs?: TextRun[]; // Mixed styling within the block; concatenated run text equals `text`
+  paragraphs?: ParagraphFormat[]; // One per line of `text` (split on \n); bullet glyphs are not part of the text
+  language?: string; // BCP 47 tag, e.g. "zh-CN" or "ar"
+  script?: TextScript; // Detected from the text when the analyzer does not say
+  rotation?: number; // Degrees clockwise from horizontal, -180 to 180; box_2d stays the axis-aligned box around the rotated text
+  vertical?: boolean; // Top-to-bottom columns read right to left, as in vertical CJK; box_2d is the tall box itself
+}
+
+export interface DetectedTableCell {
+  row: number; // 0-based index of the cell's top-left grid position
+  col: number;
+  text: string;
+  rowSpan?: number; // Merged cells span more than one row/column
+  colSpan?: number;
+  bold?: boolean;
+  fillColor?: string; // Hex; overrides the table fill for this cell
+  textColor?: string; // Hex; overrides the table text color for this cell
+}
+
+export interface DetectedTable {
+  box_2d: [number, number, number, number]; // [ymin, xmin, ymax, xmax] 0-1000 scale
+  rows: number;
+  cols: number;
+  cells: DetectedTableCell[]; // Cells covered by another cell's span are omitted
+  colWidths?: number[]; // Relative column widths (fractions of the table width)
+  hasHeaderRow: boolean;
+  headerFillColor?: string; // Hex
+  headerTextColor?: string; // Hex
+  fillColor?: string; // Hex body cell background; omitted when transparent
+  textColor: string; // Hex
+  borderColor?: string; // Hex; omitted when the table has no visible borders
+  fontSize: number; // Relative point size estimate, same scale as DetectedTextElement
+}
+
+// A non-text vector primitive from a diagram (boxes, connectors)
+export interface DetectedShape {
+  kind: 'rectangle' | 'roundedRectangle' | 'ellipse' | 'line' | 'arrow';
+  box_2d: [number, number, number, number]; // [ymin, xmin, ymax, xmax] 0-1000 scale
+  start?: [number, number]; // [y, x] 0-1000; lines and arrows only
+  end?: [number, number]; // [y, x] 0-1000; the arrow head sits here unless arrowHeads says otherwise
+  arrowHeads?: 'end' | 'start' | 'both';
+  fillColor?: string; // Hex; omitted when unfilled
+  strokeColor?: string; // Hex; omitted when there is no outline
+  strokeWidth?: number; // Relative to slide height, same 0-1000 scale as box_2d
+  dashed?: boolean;
+}
+
+export interface ChartSeries {
+  name: string;
+  values: number[]; // One per category, in category order
+  color?: string; // Hex
+}
+
+// A bar/line/pie chart reduced to its underlying data
+export interface DetectedChart {
+  chartType: 'bar' | 'column' | 'line' | 'area' | 'pie' | 'doughnut'; // 'bar' is horizontal, 'column' vertical
+  box_2d: [number, number, number, number]; // [ymin, xmin, ymax, xmax] 0-1000 scale, including title and legend
+  title?: string;
+  categories: string[];
+  series: ChartSeries[];
+  stacked?: boolean;
+  showLegend?: boolean;
+  showValues?: boolean; // Data labels printed on the chart
+  textColor?: string; // Hex color of axis labels and legend
+}
+
+// Everything the analysis step extracts from one slide
+export interface SlideLayout {
+  elements: DetectedTextElement[];
+  tables?: DetectedTable[];
+  shapes?: DetectedShape[];
+  charts?: DetectedChart[];
+  warnings?: string[]; // Problems found and repaired while validating the model's answer
+}
+
+// How a generated background was mapped back onto the source pixel grid
+export type BackgroundFit = 'stretch' | 'cover' | 'contain';
+
+// Whether a model answer was reused from the analysis cache or freshly requested
+export type CacheStatus = 'hit' | 'miss';
+
+// Requests and tokens spent on one model
+export interface ModelUsage {
+  requests: number;
+  inputTokens: number;
+  outputTokens: number; // Includes thinking tokens and generated images, which are billed as output
+  imageGenerations: number;
+}
+
+// One model response as reported back by a provider
+export interface ModelCallUsage {
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  imageGenerations: number;
+}
+
+// What a slide has cost so far; re-runs add to it, cached answers add nothing
+export interface SlideUsage {
+  models: Record<string, ModelUsage>;
+  retries: number;
+  latencyMs: number; // Time spent waiting on model requests, including retries and backoff
+}
+
+// USD per million tokens, as billed by the model's provider
+export interface ModelPrice {
+  inputPerMillion: number;
+  outputPerMillion: number;
+}
+
+export type PriceTable = Record<string, ModelPrice>;
+
+// Result of checking a cleaned background for leftover glyphs inside the text boxes
+export interface GhostTextCheck {
+  passes: number; // Re-cleaning passes run over the flagged boxes
+  flagged: number; // Boxes with leftover text after the first cleaning
+  remaining: number; // Boxes still flagged after the last pass
+  method?: 'ai' | 'local'; // How flagged boxes were re-cleaned; 'ai' when any crop went to the model
+  outcome: 'clean' | 'fixed' | 'residual';
 }
 
 export interface ProcessedImage {
@@ -30,13 +171,55 @@ export interface ProcessedImage {
   width: number;
   height: number;
   elements?: DetectedTextElement[];
+  tables?: DetectedTable[];
+  shapes?: DetectedShape[];
+  charts?: DetectedChart[];
+  pdfSource?: { fileName: string; page: number; pageCount: number }; // Set when the image is a rendered PDF page
+  textLayer?: SlideLayout; // Layout read from the PDF's own text; used instead of vision analysis
+  warnings?: string[]; // Layout validation warnings from the last analysis
   cleanBackgroundBase64?: string; // The image with text removed
+  cleaningMethod?: 'ai' | 'local'; // How cleanBackgroundBase64 was produced
+  backgroundAlignment?: { fit: BackgroundFit; meanDiff: number }; // How an AI background was mapped back to width x height
+  ghostText?: GhostTextCheck; // Set when the cleaned background could be checked
+  cache?: { analysis?: CacheStatus; cleaning?: CacheStatus }; // Set for the model calls that went through the cache
+  usage?: SlideUsage;
+  fidelity?: number; // SSIM between the original and a render of the rebuilt slide, 0-1
   error?: string;
 }
 
 export enum ProcessingStep {
   IDLE = 'IDLE',
+  IMPORTING = 'IMPORTING',
   ANALYZING = 'ANALYZING',
   GENERATING = 'GENERATING',
   DONE = 'DONE',
-}
\ No newline at end of file
+}
+export type VisionProviderId = 'gemini' | 'tesseract' | 'mock';
+
+// 'ai' uses Gemini image editing and falls back to local inpainting; 'local' never calls a model
+export type BackgroundCleaningMode = 'ai' | 'local';
+
+// How slides of differing aspect ratios are laid out in the exported deck
+export type LayoutStrategy = 'match-first' | 'standard' | 'split-orientation';
+export type StandardLayout = '16:9' | '4:3' | 'A4';
+
+// Font faces used for one detected family; bold text uses `bold` when set
+export interface FontFaceMapping {
+  regular: string;
+  bold?: string;
+}
+
+export interface FontProfile {
+  families: Record<DetectedTextElement['fontFamily'], FontFaceMapping>;
+  eastAsian: Record<EastAsianScript, string>; // Faces for Chinese, Japanese and Korean text, whatever the detected family
+  useDetectedNames: boolean; // Prefer an element's fontName when that font is installed
+}
+
+export interface PptExportOptions {
+  strategy: LayoutStrategy;
+  standardLayout: StandardLayout; // Used by the 'standard' strategy
+  letterboxColor: string; // Hex fill for bars around letterboxed slides, or 'auto' to extend the image edge color
+  fonts: FontProfile;
+}
+
+export type ExportFormatId = 'pptx' | 'odp' | 'html' | 'json';
@@ -2,7 +2,7 @@ import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
 
-export default defineConfig(({ mode }) => {
+export default defineConfig(({ mode, isSsrBuild }) => {
     const env = loadEnv(mode, '.', '');
     return {
       server: {
@@ -10,9 +10,15 @@ export default defineConfig(({ mode }) => {
         host: '0.0.0.0',
       },
       plugins: [react()],
-      define: {
+      // The CLI (an SSR build) reads its environment at run time instead of build time
+      define: isSsrBuild ? {} : {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.VISION_PROVIDER': JSON.stringify(env.VISION_PROVIDER),
+        'process.env.TESSERACT_LANG_PATH': JSON.stringify(env.TESSERACT_LANG_PATH),
+        'process.env.TESSERACT_CORE_PATH': JSON.stringify(env.TESSERACT_CORE_PATH),
+        'process.env.TESSERACT_WORKER_PATH': JSON.stringify(env.TESSERACT_WORKER_PATH),
+        'process.env.PDFJS_WORKER_PATH': JSON.stringify(env.PDFJS_WORKER_PATH)
       },
       resolve: {
         alias: {